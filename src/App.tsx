@@ -6,6 +6,12 @@ import Dashboard from './pages/Dashboard';
 import NewAppointment from './pages/NewAppointment';
 import History from './pages/History';
 import CashFlow from './pages/CashFlow';
+import PatientProfile from './pages/PatientProfile';
+import Settings from './pages/Settings';
+import Procedures from './pages/Procedures';
+import Agenda from './pages/Agenda';
+import Commissions from './pages/Commissions';
+import Reminders from './pages/Reminders';
 import Layout from './components/Layout';
 import PrivateRoute from './components/PrivateRoute';
 
@@ -17,9 +23,15 @@ function App() {
           <Route path="/login" element={<Login />} />
           <Route element={<PrivateRoute><Layout /></PrivateRoute>}>
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/agenda" element={<Agenda />} />
             <Route path="/appointments/new" element={<NewAppointment />} />
             <Route path="/history" element={<History />} />
             <Route path="/cash-flow" element={<CashFlow />} />
+            <Route path="/patients/:id" element={<PatientProfile />} />
+            <Route path="/procedures" element={<Procedures />} />
+            <Route path="/commissions" element={<Commissions />} />
+            <Route path="/reminders" element={<Reminders />} />
+            <Route path="/settings" element={<Settings />} />
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
           </Route>
         </Routes>
@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { addDays, format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  Booking,
+  bookingDurationMinutes,
+  bookingErrorMessage,
+  bookingUsesResource,
+  clinicDate,
+  clinicDateTime,
+  clinicTime,
+  fetchBookings,
+  findConflicts,
+  saveBooking,
+  setBookingStatus,
+} from '../lib/bookings';
+import { Professional } from '../lib/professionals';
+import { Resource } from '../lib/resources';
+import { Procedure, fetchProcedures } from '../lib/procedures';
+import { PatientSummary, fetchPatientSummaries } from '../lib/patients';
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180];
+
+// Horário escolhido na grade para um novo agendamento
+export interface BookingDraft {
+  date: string;
+  time: string;
+  professionalId: string | null;
+}
+
+interface BookingDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  booking: Booking | null;
+  draft: BookingDraft | null;
+  professionals: Professional[];
+  resources: Resource[];
+}
+
+const BookingDialog = ({ isOpen, onClose, onSuccess, booking, draft, professionals, resources }: BookingDialogProps) => {
+  const navigate = useNavigate();
+  const [formData, setFormData] = useState({
+    patient_name: '',
+    procedure: '',
+    date: '',
+    time: '',
+    duration: '60',
+    professional_id: '',
+    room_id: '',
+    notes: '',
+    equipment_ids: [] as string[],
+  });
+  const [loading, setLoading] = useState(false);
+  const [patients, setPatients] = useState<PatientSummary[]>([]);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [dayBookings, setDayBookings] = useState<Booking[]>([]);
+
+  useEffect(() => {
+    if (booking) {
+      setFormData({
+        patient_name: booking.patient_name,
+        procedure: booking.procedure || '',
+        date: clinicDate(booking.starts_at),
+        time: clinicTime(booking.starts_at),
+        duration: bookingDurationMinutes(booking).toString(),
+        professional_id: booking.professional_id || '',
+        room_id: booking.room_id || '',
+        notes: booking.notes || '',
+        equipment_ids: booking.equipment.map(item => item.resource_id),
+      });
+    } else if (draft) {
+      setFormData({
+        patient_name: '',
+        procedure: '',
+        date: draft.date,
+        time: draft.time,
+        duration: '60',
+        professional_id: draft.professionalId || '',
+        room_id: '',
+        notes: '',
+        equipment_ids: [],
+      });
+    }
+  }, [booking, draft]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetchPatientSummaries()
+      .then(setPatients)
+      .catch(error => console.error('Error fetching patients:', error));
+
+    fetchProcedures()
+      .then(catalog => setProcedures(catalog.filter(procedure => procedure.active)))
+      .catch(error => console.error('Error fetching procedures:', error));
+  }, [isOpen]);
+
+  // Os conflitos são conferidos contra todos os agendamentos do dia escolhido
+  useEffect(() => {
+    if (!isOpen || !formData.date) return;
+
+    fetchBookings(
+      clinicDateTime(formData.date, '00:00'),
+      clinicDateTime(format(addDays(parseISO(formData.date), 1), 'yyyy-MM-dd'), '00:00')
+    )
+      .then(setDayBookings)
+      .catch(error => console.error('Error fetching bookings:', error));
+  }, [isOpen, formData.date]);
+
+  if (!isOpen || (!booking && !draft)) return null;
+
+  const patient = patients.find(p => p.name.toLowerCase() === formData.patient_name.trim().toLowerCase()) || null;
+  const startsAt = formData.date && formData.time ? clinicDateTime(formData.date, formData.time) : '';
+  const endsAt = startsAt
+    ? new Date(new Date(startsAt).getTime() + (parseInt(formData.duration) || 0) * 60000).toISOString()
+    : '';
+  const conflicts = startsAt
+    ? findConflicts({
+      id: booking?.id,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      professional_id: formData.professional_id || null,
+      room_id: formData.room_id || null,
+      equipment: formData.equipment_ids.map(resource_id => ({ resource_id })),
+    }, dayBookings)
+    : [];
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const rooms = resources.filter(resource => resource.kind === 'room');
+  const equipment = resources.filter(resource => resource.kind === 'equipment');
+
+  // O que o outro agendamento disputa com este: profissional, sala ou equipamento
+  const conflictReason = (other: Booking) => [
+    formData.professional_id && other.professional_id === formData.professional_id
+      && professionals.find(p => p.id === other.professional_id)?.name,
+    ...resources
+      .filter(resource => (resource.id === formData.room_id || formData.equipment_ids.includes(resource.id))
+        && bookingUsesResource(other, resource.id))
+      .map(resource => resource.name),
+  ].filter(Boolean).join(' · ');
+
+  const toggleEquipment = (id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      equipment_ids: prev.equipment_ids.includes(id)
+        ? prev.equipment_ids.filter(equipmentId => equipmentId !== id)
+        : [...prev.equipment_ids, id],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (conflicts.length > 0) {
+      toast.error('O profissional, a sala ou o equipamento já estão ocupados nesse horário.');
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Salvando agendamento...');
+
+    try {
+      const input = {
+        patientId: patient?.id || null,
+        patientName: formData.patient_name,
+        procedure: formData.procedure,
+        professionalId: formData.professional_id || null,
+        roomId: formData.room_id || null,
+        startsAt,
+        endsAt,
+        notes: formData.notes,
+        equipmentIds: formData.equipment_ids,
+      };
+
+      await saveBooking(booking?.id || null, input);
+
+      await onSuccess();
+      toast.success('Agendamento salvo com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error saving booking:', error);
+      toast.error(bookingErrorMessage(error, 'Erro ao salvar agendamento.'), { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatus = async (status: 'done' | 'cancelled') => {
+    if (!booking) return;
+
+    const toastId = toast.loading('Atualizando agendamento...');
+    try {
+      await setBookingStatus(booking.id, status);
+      await onSuccess();
+      toast.success(status === 'done' ? 'Atendimento concluído!' : 'Agendamento cancelado.', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error updating booking:', error);
+      toast.error(bookingErrorMessage(error, 'Erro ao atualizar agendamento.'), { id: toastId });
+    }
+  };
+
+  // Abre o Novo Agendamento já preenchido para gerar o plano de pagamento
+  const handleCreatePlan = () => {
+    if (!booking) return;
+
+    const bookedPatient = patients.find(p => p.id === booking.patient_id);
+    navigate('/appointments/new', {
+      state: {
+        booking: {
+          id: booking.id,
+          patientName: booking.patient_name,
+          cpf: bookedPatient?.cpf || '',
+          procedure: booking.procedure || '',
+          procedureDate: clinicDate(booking.starts_at),
+          professionalId: booking.professional_id,
+        },
+      },
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">{booking ? 'Editar Horário' : 'Novo Horário'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Paciente
+            </label>
+            <input
+              type="text"
+              name="patient_name"
+              value={formData.patient_name}
+              onChange={handleInputChange}
+              required
+              list="booking-patients"
+              autoComplete="off"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Busque um paciente ou digite o nome"
+            />
+            <datalist id="booking-patients">
+              {patients.map(option => (
+                <option key={option.id} value={option.name} />
+              ))}
+            </datalist>
+            {formData.patient_name && !patient && (
+              <p className="mt-1 text-sm text-gray-600">Paciente sem cadastro; o cadastro é criado ao gerar o plano.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Procedimento
+            </label>
+            <input
+              type="text"
+              name="procedure"
+              value={formData.procedure}
+              onChange={handleInputChange}
+              list="booking-procedures"
+              autoComplete="off"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+            <datalist id="booking-procedures">
+              {procedures.map(procedure => (
+                <option key={procedure.id} value={procedure.name} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Data
+              </label>
+              <input
+                type="date"
+                name="date"
+                value={formData.date}
+                onChange={handleInputChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Horário
+              </label>
+              <input
+                type="time"
+                name="time"
+                value={formData.time}
+                onChange={handleInputChange}
+                required
+                step={300}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Duração
+              </label>
+              <select
+                name="duration"
+                value={formData.duration}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              >
+                {!DURATION_OPTIONS.includes(parseInt(formData.duration)) && (
+                  <option value={formData.duration}>{formData.duration} min</option>
+                )}
+                {DURATION_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Profissional
+              </label>
+              <select
+                name="professional_id"
+                value={formData.professional_id}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              >
+                <option value="">Sem profissional</option>
+                {professionals
+                  .filter(professional => professional.active || professional.id === formData.professional_id)
+                  .map(professional => (
+                    <option key={professional.id} value={professional.id}>{professional.name}</option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sala
+              </label>
+              <select
+                name="room_id"
+                value={formData.room_id}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              >
+                <option value="">Sem sala</option>
+                {rooms
+                  .filter(room => room.active || room.id === formData.room_id)
+                  .map(room => (
+                    <option key={room.id} value={room.id}>{room.name}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
+          {equipment.some(item => item.active || formData.equipment_ids.includes(item.id)) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Equipamentos
+              </label>
+              <div className="flex flex-wrap gap-4">
+                {equipment
+                  .filter(item => item.active || formData.equipment_ids.includes(item.id))
+                  .map(item => (
+                    <label key={item.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.equipment_ids.includes(item.id)}
+                        onChange={() => toggleEquipment(item.id)}
+                        className="mr-2"
+                      />
+                      {item.name}
+                    </label>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="p-3 bg-red-50 rounded-md text-sm text-red-700 space-y-1">
+              <p className="font-medium">Conflito de horário:</p>
+              {conflicts.map(other => (
+                <p key={other.id}>
+                  {clinicTime(other.starts_at)}–{clinicTime(other.ends_at)} · {other.patient_name}
+                  {conflictReason(other) && ` · ${conflictReason(other)}`}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Observação
+            </label>
+            <textarea
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Opcional"
+            />
+          </div>
+
+          {booking && (
+            <div className="flex flex-wrap gap-4 text-sm">
+              {booking.treatment_id ? (
+                <span className="text-green-700">Plano de pagamento gerado</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleCreatePlan}
+                  className="text-primary hover:underline"
+                >
+                  Gerar plano de pagamento
+                </button>
+              )}
+              {booking.status === 'scheduled' && (
+                <button
+                  type="button"
+                  onClick={() => handleStatus('done')}
+                  className="text-gray-600 hover:underline"
+                >
+                  Marcar como realizado
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleStatus('cancelled')}
+                className="text-red-600 hover:underline"
+              >
+                Cancelar horário
+              </button>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Fechar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BookingDialog;
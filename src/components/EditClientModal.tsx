@@ -1,27 +1,76 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { format, parseISO, addDays, isWeekend } from 'date-fns';
-import { addMonths, getDate, getDaysInMonth } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
 import InputMask from 'react-input-mask';
 import toast from 'react-hot-toast';
+import {
+  PatientSummary,
+  fetchPatientSummaries,
+  findPatientMatches,
+  isValidCpf,
+  normalizeCpf,
+  patientErrorMessage,
+} from '../lib/patients';
+import { formatCents, fromCents, sumCents, toCents } from '../lib/money';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import { DOWN_PAYMENT_METHODS, paymentMethodLabel } from '../lib/paymentMethods';
+import { CardFeeRule, fetchCardFeeRules } from '../lib/fees';
+import {
+  EMPTY_PAYMENT_LEG,
+  PaymentLegForm,
+  isSettledInstallment,
+  legLabel,
+  planErrorMessage,
+  planLegs,
+  updateTreatmentPlan,
+  validatePlan,
+} from '../lib/treatments';
+import { HolidayCalendar, createHolidayCalendar, fetchMunicipalHolidays } from '../lib/schedule';
+import { Professional, fetchProfessionals } from '../lib/professionals';
+import PaymentLegsEditor from './PaymentLegsEditor';
+import PatientMatchNotice from './PatientMatchNotice';
 
-interface Client {
+const timeZone = 'America/Sao_Paulo';
+
+interface Treatment {
   id: string;
-  patient_name: string;
-  cpf: string;
+  patient_id: string;
+  patient: {
+    id: string;
+    name: string;
+    cpf: string;
+  };
   procedure: string;
   total_value: number;
-  installment_value: number;
-  next_payment_date: string;
-  payment_method: string;
-  installments: number;
   procedure_date: string;
+  professional_id: string | null;
+  payment_legs: {
+    id: string;
+    position: number;
+    payment_method: string;
+    amount: number;
+    installments: number;
+    first_due_date: string | null;
+    is_down_payment: boolean;
+    card_brand: string | null;
+  }[];
+  appointments: {
+    id: string;
+    leg_id: string;
+    status: string;
+    installment_number: number;
+    installment_value: number;
+    amount_paid: number;
+    next_payment_date: string;
+    // Inclui pagamentos estornados
+    payments: { id: string }[];
+  }[];
 }
 
 interface EditClientModalProps {
   isOpen: boolean;
   onClose: () => void;
-  client: Client | null;
+  client: Treatment | null;
   onUpdate: () => Promise<void>;
 }
 
@@ -30,113 +79,123 @@ const EditClientModal = ({ isOpen, onClose, client, onUpdate }: EditClientModalP
     patient_name: '',
     cpf: '',
     procedure: '',
+    professional_id: '',
     total_value: '',
-    next_payment_date: '',
-    installment_value: '',
-    payment_method: 'credit_card',
-    installments: '1',
+    down_payment_value: '',
+    down_payment_method: 'pix',
   });
+  const [legs, setLegs] = useState<PaymentLegForm[]>([{ ...EMPTY_PAYMENT_LEG }]);
+  // Cadastro existente para o qual o tratamento será movido, em vez de alterar o paciente atual
+  const [reusedPatientId, setReusedPatientId] = useState<string | null>(null);
 
   useEffect(() => {
     if (client) {
+      setReusedPatientId(null);
+      const sortedLegs = [...client.payment_legs].sort((a, b) => a.position - b.position);
+      const hasSettled = client.appointments.some(isSettledInstallment);
+
+      if (hasSettled) {
+        // Com parcelas pagas, o formulário parte só do que está em aberto em cada forma de pagamento
+        const openLegs = sortedLegs
+          .map(leg => ({
+            leg,
+            open: client.appointments
+              .filter(installment => installment.leg_id === leg.id && !isSettledInstallment(installment))
+              .sort((a, b) => a.installment_number - b.installment_number),
+          }))
+          .filter(({ open }) => open.length > 0);
+
+        setFormData({
+          patient_name: client.patient.name,
+          cpf: client.patient.cpf,
+          procedure: client.procedure,
+          professional_id: client.professional_id || '',
+          total_value: client.total_value.toString(),
+          down_payment_value: '',
+          down_payment_method: 'pix',
+        });
+        setLegs(openLegs.length > 0
+          ? openLegs.map(({ leg, open }) => ({
+            payment_method: leg.payment_method,
+            amount: fromCents(sumCents(open.map(installment => installment.installment_value))).toFixed(2),
+            installments: open.length.toString(),
+            first_due_date: open[0].next_payment_date,
+            card_brand: leg.card_brand || '',
+          }))
+          : [{ ...EMPTY_PAYMENT_LEG }]);
+        return;
+      }
+
+      const downPayment = sortedLegs.find(leg => leg.is_down_payment);
+      const otherLegs = sortedLegs.filter(leg => !leg.is_down_payment);
+
       setFormData({
-        patient_name: client.patient_name,
-        cpf: client.cpf,
+        patient_name: client.patient.name,
+        cpf: client.patient.cpf,
         procedure: client.procedure,
+        professional_id: client.professional_id || '',
         total_value: client.total_value.toString(),
-        next_payment_date: client.next_payment_date ? format(parseISO(client.next_payment_date), 'yyyy-MM-dd') : '',
-        installment_value: client.installment_value.toString(),
-        payment_method: client.payment_method,
-        installments: client.installments.toString(),
+        down_payment_value: downPayment ? Number(downPayment.amount).toFixed(2) : '',
+        down_payment_method: downPayment?.payment_method || 'pix',
       });
+      setLegs(otherLegs.length > 0
+        ? otherLegs.map(leg => ({
+          payment_method: leg.payment_method,
+          amount: Number(leg.amount).toFixed(2),
+          installments: leg.installments.toString(),
+          first_due_date: leg.first_due_date ? format(parseISO(leg.first_due_date), 'yyyy-MM-dd') : '',
+          card_brand: leg.card_brand || '',
+        }))
+        : [{ ...EMPTY_PAYMENT_LEG }]);
     }
   }, [client]);
 
   const [loading, setLoading] = useState(false);
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(() => createHolidayCalendar());
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+  const [feeRules, setFeeRules] = useState<CardFeeRule[]>([]);
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [patients, setPatients] = useState<PatientSummary[]>([]);
 
-  if (!isOpen || !client) return null;
+  useEffect(() => {
+    if (!isOpen) return;
 
-  const addBusinessDays = (date: Date, days: number): Date => {
-    let currentDate = date;
-    let remainingDays = days;
+    fetchMunicipalHolidays()
+      .then(holidays => setHolidayCalendar(createHolidayCalendar(holidays)))
+      .catch(error => console.error('Error fetching holidays:', error));
 
-    while (remainingDays > 0) {
-      currentDate = addDays(currentDate, 1);
-      if (!isWeekend(currentDate)) {
-        remainingDays--;
-      }
-    }
+    fetchClinicSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching settings:', error));
 
-    return currentDate;
-  };
+    fetchCardFeeRules()
+      .then(setFeeRules)
+      .catch(error => console.error('Error fetching card fee rules:', error));
 
-  const calculateInstallmentDates = (procedureDateStr: string, numberOfInstallments: number): string[] => {
-    const dates: string[] = [];
-    const procedureDate = parseISO(procedureDateStr);
-    
-    if (formData.payment_method === 'pix' || formData.payment_method === 'cash') {
-      dates.push(format(procedureDate, 'yyyy-MM-dd'));
-      return dates;
-    }
-    
-    // Para parcelamento no cartão de crédito - uma parcela por mês
-    for (let i = 0; i < numberOfInstallments; i++) {
-      // Adiciona meses sequenciais a partir do mês seguinte ao procedimento
-      let installmentDate = addMonths(procedureDate, i + 1);
-      
-      // Pega o dia do procedimento
-      const procedureDay = getDate(procedureDate);
-      
-      // Verifica se o mês de destino tem esse dia
-      const daysInTargetMonth = getDaysInMonth(installmentDate);
-      
-      if (procedureDay > daysInTargetMonth) {
-        // Se o dia não existe no mês, usa o último dia do mês
-        installmentDate = new Date(installmentDate.getFullYear(), installmentDate.getMonth(), daysInTargetMonth);
-      } else {
-        // Usa o mesmo dia do procedimento
-        installmentDate = new Date(installmentDate.getFullYear(), installmentDate.getMonth(), procedureDay);
-      }
-      
-      // Ajusta para segunda-feira se cair no fim de semana
-      installmentDate = adjustForWeekend(installmentDate);
-      
-      dates.push(format(installmentDate, 'yyyy-MM-dd'));
-    }
+    fetchProfessionals()
+      .then(setProfessionals)
+      .catch(error => console.error('Error fetching professionals:', error));
 
-    return dates;
-  };
+    fetchPatientSummaries()
+      .then(setPatients)
+      .catch(error => console.error('Error fetching patients:', error));
+  }, [isOpen]);
+
+  if (!isOpen || !client) return null;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
-    if (name === 'total_value' || name === 'installment_value') {
+    if (name === 'total_value' || name === 'down_payment_value') {
       // Remove any non-digit characters except decimal point and comma
       let processedValue = value.replace(/[^\d,.]/g, '');
       // Replace comma with dot for internal storage
       processedValue = processedValue.replace(/\./g, '').replace(',', '.');
       setFormData(prev => ({ ...prev, [name]: processedValue }));
-    } else if (name === 'installments') {
-      const newInstallments = parseInt(value) || 1;
-      const totalValue = parseFloat(formData.total_value);
-      const newInstallmentValue = (totalValue / newInstallments).toFixed(2);
-      
-      setFormData(prev => ({
-        ...prev,
-        installments: value,
-        installment_value: newInstallmentValue
-      }));
-    } else if (name === 'payment_method') {
-      if (value === 'pix' || value === 'cash') {
-        setFormData(prev => ({
-          ...prev,
-          payment_method: value,
-          installments: '1',
-          installment_value: formData.total_value
-        }));
-      } else {
-        setFormData(prev => ({ ...prev, payment_method: value }));
-      }
+    } else if (name === 'patient_name' || name === 'cpf') {
+      // Editar nome ou CPF volta a alterar o cadastro atual
+      setReusedPatientId(null);
+      setFormData(prev => ({ ...prev, [name]: value }));
     } else {
       setFormData(prev => ({ ...prev, [name]: value }));
     }
@@ -153,53 +212,92 @@ const EditClientModal = ({ isOpen, onClose, client, onUpdate }: EditClientModalP
     });
   };
 
+  // Cadastros antigos podem ter CPF com dígito errado; só um CPF alterado precisa ser válido
+  const cpfChanged = !reusedPatientId && normalizeCpf(formData.cpf) !== normalizeCpf(client.patient.cpf);
+  const cpfInvalid = cpfChanged && normalizeCpf(formData.cpf).length === 11 && !isValidCpf(formData.cpf);
+  const patientMatches = findPatientMatches(patients, {
+    name: formData.patient_name,
+    cpf: formData.cpf,
+    excludeId: client.patient_id,
+  });
+
+  const reusePatient = (patient: PatientSummary) => {
+    setFormData(prev => ({ ...prev, patient_name: patient.name, cpf: patient.cpf }));
+    setReusedPatientId(patient.id);
+  };
+
+  const totalCents = toCents(formData.total_value);
+
+  // Parcelas já pagas (total ou parcialmente) são mantidas; só o saldo é reparcelado
+  const settledInstallments = client.appointments.filter(isSettledInstallment);
+  const hasSettled = settledInstallments.length > 0;
+  const settledCents = sumCents(settledInstallments.map(installment => installment.installment_value));
+  const balanceCents = totalCents - settledCents;
+  const downPaymentCents = hasSettled ? 0 : toCents(formData.down_payment_value);
+
+  const plannedLegs = planLegs({
+    totalCents: balanceCents,
+    downPaymentCents,
+    downPaymentMethod: formData.down_payment_method,
+    legs,
+    // O saldo é reparcelado a partir de hoje; sem pagamentos, o plano todo segue a data do procedimento
+    procedureDate: hasSettled ? format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd') : client.procedure_date,
+    calendar: holidayCalendar,
+    remainderTo: settings.installment_remainder,
+    feeRules,
+    scheduleRules: settings.schedule_rules,
+  });
+
+  // Ex: "1x R$ 333,34 + 2x R$ 333,33"
+  const describeInstallmentAmounts = (amounts: number[]) => {
+    const counts = new Map<number, number>();
+    amounts.forEach(amount => counts.set(amount, (counts.get(amount) || 0) + 1));
+    return Array.from(counts.entries())
+      .map(([amount, count]) => `${count}x ${formatCents(amount)}`)
+      .join(' + ');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (cpfChanged && !isValidCpf(formData.cpf)) {
+      toast.error('CPF inválido. Confira os dígitos verificadores.');
+      return;
+    }
+
+    if (hasSettled && balanceCents <= 0) {
+      toast.error(`O valor total deve ser maior que o das parcelas já pagas (${formatCents(settledCents)}).`);
+      return;
+    }
+
+    const planError = validatePlan(plannedLegs, balanceCents);
+    if (planError) {
+      toast.error(planError);
+      return;
+    }
+
     setLoading(true);
     const toastId = toast.loading('Atualizando dados...');
 
     try {
-      const installmentDates = calculateInstallmentDates(
-        client.procedure_date,
-        parseInt(formData.installments)
-      );
-
-      // Delete existing appointments
-      const { error: deleteError } = await supabase
-        .from('appointments')
-        .delete()
-        .eq('procedure_date', client.procedure_date)
-        .eq('patient_name', client.patient_name);
-
-      if (deleteError) throw deleteError;
-
-      // Create new appointments with updated installment information
-      const appointments = installmentDates.map((date, index) => ({
-        patient_name: formData.patient_name,
-        cpf: formData.cpf.replace(/\D/g, ''),
+      // The database updates the patient and the professional, keeps installments
+      // with payments and rewrites the rest in one transaction
+      await updateTreatmentPlan({
+        treatmentId: client.id,
         procedure: formData.procedure,
-        total_value: parseFloat(formData.total_value),
-        installments: parseInt(formData.installments),
-        installment_value: parseFloat(formData.total_value) / parseInt(formData.installments),
-        procedure_date: client.procedure_date,
-        next_payment_date: date,
-        status: formData.payment_method === 'pix' || formData.payment_method === 'cash' ? 'paid' : 'pending',
-        installment_number: index + 1,
-        payment_method: formData.payment_method
-      }));
-
-      const { error: insertError } = await supabase
-        .from('appointments')
-        .insert(appointments);
-
-      if (insertError) throw insertError;
+        totalCents,
+        legs: plannedLegs,
+        professionalId: formData.professional_id || null,
+        patient: reusedPatientId ? null : { name: formData.patient_name, cpf: normalizeCpf(formData.cpf) },
+        patientId: reusedPatientId,
+      });
 
       await onUpdate();
       toast.success('Dados atualizados com sucesso!', { id: toastId });
       onClose();
     } catch (error) {
       console.error('Error updating client:', error);
-      toast.error('Erro ao atualizar dados.', { id: toastId });
+      toast.error(patientErrorMessage(error, planErrorMessage(error, 'Erro ao atualizar dados.')), { id: toastId });
     } finally {
       setLoading(false);
     }
@@ -207,7 +305,7 @@ const EditClientModal = ({ isOpen, onClose, client, onUpdate }: EditClientModalP
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-semibold mb-4">Editar Dados</h3>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -237,8 +335,22 @@ const EditClientModal = ({ isOpen, onClose, client, onUpdate }: EditClientModalP
               className="w-full px-3 py-2 border border-gray-300 rounded-md"
               required
             />
+            {cpfInvalid && (
+              <p className="mt-1 text-sm text-red-600">CPF inválido. Confira os dígitos verificadores.</p>
+            )}
           </div>
 
+          <PatientMatchNotice
+            matches={patientMatches}
+            onReuse={reusePatient}
+            selectedId={reusedPatientId}
+          />
+          {reusedPatientId && (
+            <p className="text-sm text-gray-600">
+              Este tratamento será movido para o cadastro escolhido; o cadastro atual não é alterado.
+            </p>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Procedimento
@@ -255,18 +367,20 @@ const EditClientModal = ({ isOpen, onClose, client, onUpdate }: EditClientModalP
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Forma de Pagamento
+              Profissional
             </label>
             <select
-              name="payment_method"
-              value={formData.payment_method}
+              name="professional_id"
+              value={formData.professional_id}
               onChange={handleInputChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md"
-              required
             >
-              <option value="credit_card">Cartão de Crédito</option>
-              <option value="pix">PIX</option>
-              <option value="cash">Dinheiro</option>
+              <option value="">Sem profissional</option>
+              {professionals
+                .filter(professional => professional.active || professional.id === formData.professional_id)
+                .map(professional => (
+                  <option key={professional.id} value={professional.id}>{professional.name}</option>
+                ))}
             </select>
           </div>
 
@@ -287,37 +401,78 @@ const EditClientModal = ({ isOpen, onClose, client, onUpdate }: EditClientModalP
             </div>
           </div>
 
+          {hasSettled && (
+            <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700 space-y-1">
+              <div className="flex justify-between">
+                <span>Parcelas pagas mantidas ({settledInstallments.length})</span>
+                <span>{formatCents(settledCents)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span>Saldo a reparcelar</span>
+                <span>{formatCents(Math.max(balanceCents, 0))}</span>
+              </div>
+            </div>
+          )}
+
+          {!hasSettled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Entrada
+                </label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                  <input
+                    type="text"
+                    name="down_payment_value"
+                    value={formatCurrency(formData.down_payment_value)}
+                    onChange={handleInputChange}
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="0,00"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Forma da Entrada
+                </label>
+                <select
+                  name="down_payment_method"
+                  value={formData.down_payment_method}
+                  onChange={handleInputChange}
+                  disabled={downPaymentCents === 0}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+                >
+                  {DOWN_PAYMENT_METHODS.map(method => (
+                    <option key={method} value={method}>{paymentMethodLabel(method)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Número de Parcelas
+              Formas de Pagamento
             </label>
-            <input
-              type="number"
-              name="installments"
-              value={formData.installments}
-              onChange={handleInputChange}
-              min="1"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md"
-              required
-              disabled={formData.payment_method === 'pix' || formData.payment_method === 'cash'}
+            <PaymentLegsEditor
+              legs={legs}
+              onChange={setLegs}
+              totalCents={Math.max(balanceCents, 0)}
+              downPaymentCents={downPaymentCents}
             />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Valor da Parcela
+              Valor das Parcelas
             </label>
-            <div className="relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
-              <input
-                type="text"
-                name="installment_value"
-                value={formatCurrency(formData.installment_value)}
-                onChange={handleInputChange}
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md"
-                required
-                disabled
-              />
+            <div className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100 text-gray-700 space-y-1">
+              {plannedLegs.map((leg, index) => (
+                <div key={index}>
+                  <span className="text-gray-500">{legLabel(leg)}:</span> {describeInstallmentAmounts(leg.amounts)}
+                </div>
+              ))}
             </div>
           </div>
 
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { X } from 'lucide-react';
+import InputMask from 'react-input-mask';
+import toast from 'react-hot-toast';
+import {
+  EMPTY_PATIENT_CONTACT,
+  Patient,
+  PatientContactForm,
+  isValidCpf,
+  normalizeCpf,
+  patientContactForm,
+  patientContactValues,
+  patientErrorMessage,
+  validatePatientContact,
+} from '../lib/patients';
+import PatientContactFields from './PatientContactFields';
+
+interface EditPatientModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patient: Patient | null;
+  onSuccess: () => void;
+}
+
+const EditPatientModal = ({ isOpen, onClose, patient, onSuccess }: EditPatientModalProps) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    cpf: '',
+    notes: '',
+  });
+  const [contact, setContact] = useState<PatientContactForm>(EMPTY_PATIENT_CONTACT);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (patient) {
+      setFormData({
+        name: patient.name,
+        cpf: patient.cpf,
+        notes: patient.notes || '',
+      });
+      setContact(patientContactForm(patient));
+    }
+  }, [patient]);
+
+  if (!isOpen || !patient) return null;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidCpf(formData.cpf)) {
+      toast.error('CPF inválido. Confira os dígitos verificadores.');
+      return;
+    }
+
+    const contactError = validatePatientContact(contact);
+    if (contactError) {
+      toast.error(contactError);
+      return;
+    }
+
+    setLoading(true);
+
+    const toastId = toast.loading('Salvando paciente...');
+
+    try {
+      const { error } = await supabase
+        .from('patients')
+        .update({
+          name: formData.name.trim(),
+          cpf: normalizeCpf(formData.cpf),
+          ...patientContactValues(contact),
+          notes: formData.notes || null,
+        })
+        .eq('id', patient.id);
+
+      if (error) throw error;
+
+      toast.success('Paciente atualizado com sucesso!', { id: toastId });
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error updating patient:', error);
+      toast.error(patientErrorMessage(error, 'Erro ao atualizar paciente'), { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Editar Paciente</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Nome
+            </label>
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleInputChange}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              CPF
+            </label>
+            <InputMask
+              mask="999.999.999-99"
+              type="text"
+              name="cpf"
+              value={formData.cpf}
+              onChange={handleInputChange}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+
+          <PatientContactFields contact={contact} onChange={setContact} />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Observações
+            </label>
+            <textarea
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditPatientModal;
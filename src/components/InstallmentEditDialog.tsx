@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { formatCents, toCents } from '../lib/money';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import { HolidayCalendar, createHolidayCalendar, fetchMunicipalHolidays } from '../lib/schedule';
+import { EditableInstallment, installmentChange, planErrorMessage, rebalanceInstallments, updateInstallments } from '../lib/treatments';
+
+type Installment = EditableInstallment & { installment_number: number };
+
+interface InstallmentEditDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  installment: Installment | null;
+  // Demais parcelas em aberto da mesma forma de pagamento, que absorvem a diferença de valor
+  others: Installment[];
+  paymentMethod: string;
+}
+
+const InstallmentEditDialog = ({ isOpen, onClose, onSuccess, installment, others, paymentMethod }: InstallmentEditDialogProps) => {
+  const [formData, setFormData] = useState({
+    next_payment_date: '',
+    amount: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(() => createHolidayCalendar());
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+
+  useEffect(() => {
+    if (installment) {
+      setFormData({
+        next_payment_date: installment.next_payment_date,
+        amount: Number(installment.installment_value).toFixed(2),
+      });
+    }
+  }, [installment]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetchMunicipalHolidays()
+      .then(holidays => setHolidayCalendar(createHolidayCalendar(holidays)))
+      .catch(error => console.error('Error fetching holidays:', error));
+
+    fetchClinicSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching settings:', error));
+  }, [isOpen]);
+
+  if (!isOpen || !installment) return null;
+
+  const editedCents = toCents(installment.installment_value);
+  const newCents = toCents(formData.amount);
+  const rebalanced = rebalanceInstallments(others, editedCents, newCents, settings.installment_remainder);
+  const amountChanged = newCents !== editedCents;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+
+    if (name === 'amount') {
+      // Remove tudo que não for número
+      const numericValue = value.replace(/\D/g, '');
+      setFormData(prev => ({ ...prev, amount: (parseInt(numericValue || '0', 10) / 100).toFixed(2) }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const formatCurrency = (value: string) => {
+    if (!value) return '';
+    const numericValue = parseFloat(value);
+    if (isNaN(numericValue)) return '';
+
+    return numericValue.toLocaleString('pt-BR', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (amountChanged && others.length === 0) {
+      toast.error('Não há outras parcelas em aberto para compensar a diferença de valor.');
+      return;
+    }
+    if (newCents <= toCents(installment.amount_paid)) {
+      toast.error(`O valor deve ser maior que o já pago (${formatCents(toCents(installment.amount_paid))}).`);
+      return;
+    }
+    const invalid = others.find((other, index) => rebalanced[index] <= toCents(other.amount_paid));
+    if (invalid) {
+      toast.error(`A parcela ${invalid.installment_number} ficaria com valor menor ou igual ao já pago.`);
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Atualizando parcela...');
+
+    try {
+      await updateInstallments([
+        installmentChange(installment, newCents, formData.next_payment_date, paymentMethod, holidayCalendar),
+        ...(amountChanged
+          ? others.map((other, index) =>
+            installmentChange(other, rebalanced[index], other.next_payment_date, paymentMethod, holidayCalendar)
+          )
+          : []),
+      ]);
+
+      await onSuccess();
+      toast.success('Parcela atualizada com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error updating installment:', error);
+      toast.error(planErrorMessage(error, 'Erro ao atualizar parcela.'), { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Editar Parcela {installment.installment_number}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Vencimento
+              </label>
+              <input
+                type="date"
+                name="next_payment_date"
+                value={formData.next_payment_date}
+                onChange={handleInputChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Valor
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                <input
+                  type="text"
+                  name="amount"
+                  value={formatCurrency(formData.amount)}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                />
+              </div>
+            </div>
+          </div>
+
+          {amountChanged && others.length > 0 && (
+            <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700 space-y-1">
+              <p className="text-gray-600">A diferença é redistribuída nas parcelas em aberto:</p>
+              {others.map((other, index) => (
+                <div key={other.id} className="flex justify-between">
+                  <span>
+                    Parcela {other.installment_number} · {format(parseISO(other.next_payment_date), 'dd/MM/yyyy')}
+                  </span>
+                  <span>
+                    {formatCents(toCents(other.installment_value))} → {formatCents(rebalanced[index])}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {amountChanged && others.length === 0 && (
+            <p className="text-sm text-red-600">
+              Esta é a única parcela em aberto; o valor só pode ser alterado editando o plano.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InstallmentEditDialog;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { Outlet, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Calendar, History as HistoryIcon, LogOut, PlusCircle, DollarSign } from 'lucide-react';
+import { Calendar, History as HistoryIcon, LogOut, PlusCircle, DollarSign, Settings, Stethoscope, CalendarDays, Percent, Bell } from 'lucide-react';
 
 function Layout() {
   const { signOut } = useAuth();
@@ -9,9 +9,14 @@ function Layout() {
 
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: Calendar },
+    { name: 'Agenda', href: '/agenda', icon: CalendarDays },
     { name: 'Novo Agendamento', href: '/appointments/new', icon: PlusCircle },
     { name: 'Histórico', href: '/history', icon: HistoryIcon },
     { name: 'Controle de Caixa', href: '/cash-flow', icon: DollarSign },
+    { name: 'Procedimentos', href: '/procedures', icon: Stethoscope },
+    { name: 'Comissões', href: '/commissions', icon: Percent },
+    { name: 'Lembretes', href: '/reminders', icon: Bell },
+    { name: 'Configurações', href: '/settings', icon: Settings },
   ];
 
   return (
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { savePackage } from '../lib/packages';
+
+interface PackageDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  treatment: {
+    id: string;
+    procedure: string;
+    sessions_purchased: number | null;
+    package_valid_until: string | null;
+  } | null;
+  sessionsPerformed: number;
+}
+
+const PackageDialog = ({ isOpen, onClose, onSuccess, treatment, sessionsPerformed }: PackageDialogProps) => {
+  const [formData, setFormData] = useState({
+    sessions_purchased: '',
+    package_valid_until: '',
+  });
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (treatment) {
+      setFormData({
+        sessions_purchased: treatment.sessions_purchased?.toString() || '',
+        package_valid_until: treatment.package_valid_until || '',
+      });
+    }
+  }, [treatment]);
+
+  if (!isOpen || !treatment) return null;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const sessionsPurchased = parseInt(formData.sessions_purchased) || null;
+    if (sessionsPurchased !== null && sessionsPurchased < sessionsPerformed) {
+      toast.error(`O pacote já tem ${sessionsPerformed} sessões realizadas.`);
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Salvando pacote...');
+
+    try {
+      await savePackage(treatment.id, {
+        sessionsPurchased,
+        validUntil: formData.package_valid_until || null,
+      });
+
+      await onSuccess();
+      toast.success('Pacote salvo com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error saving package:', error);
+      toast.error('Erro ao salvar pacote.', { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Pacote de Sessões</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-gray-600">
+            {treatment.procedure}. Deixe as sessões em branco quando o tratamento não for vendido como pacote.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sessões Compradas
+              </label>
+              <input
+                type="number"
+                name="sessions_purchased"
+                value={formData.sessions_purchased}
+                onChange={handleInputChange}
+                min="1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Validade
+              </label>
+              <input
+                type="date"
+                name="package_valid_until"
+                value={formData.package_valid_until}
+                onChange={handleInputChange}
+                disabled={!formData.sessions_purchased}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary disabled:bg-gray-100"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PackageDialog;
@@ -0,0 +1,198 @@
+import React from 'react';
+import InputMask from 'react-input-mask';
+import { PatientContactForm, phoneMask } from '../lib/patients';
+
+interface PatientContactFieldsProps {
+  contact: PatientContactForm;
+  onChange: (contact: PatientContactForm) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary';
+
+const PatientContactFields = ({ contact, onChange }: PatientContactFieldsProps) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onChange({ ...contact, [name]: value });
+  };
+
+  const label = (text: string) => (
+    <label className="block text-sm font-medium text-gray-700 mb-1">
+      {text}
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          {label('Telefone')}
+          <InputMask
+            mask={phoneMask(contact.phone)}
+            type="tel"
+            name="phone"
+            value={contact.phone}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="(00) 00000-0000"
+          />
+        </div>
+        <div>
+          {label('WhatsApp')}
+          <InputMask
+            mask={phoneMask(contact.whatsapp)}
+            type="tel"
+            name="whatsapp"
+            value={contact.whatsapp}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="(00) 00000-0000"
+          />
+          {contact.phone && !contact.whatsapp && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...contact, whatsapp: contact.phone })}
+              className="mt-1 text-sm text-primary hover:underline"
+            >
+              Usar o mesmo número do telefone
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          {label('E-mail')}
+          <input
+            type="email"
+            name="email"
+            value={contact.email}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          {label('Data de Nascimento')}
+          <input
+            type="date"
+            name="birth_date"
+            value={contact.birth_date}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          {label('CEP')}
+          <InputMask
+            mask="99999-999"
+            type="text"
+            name="cep"
+            value={contact.cep}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="00000-000"
+          />
+        </div>
+        <div className="md:col-span-2">
+          {label('Endereço')}
+          <input
+            type="text"
+            name="address"
+            value={contact.address}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="Rua, avenida..."
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          {label('Número')}
+          <input
+            type="text"
+            name="address_number"
+            value={contact.address_number}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        <div className="md:col-span-2">
+          {label('Complemento')}
+          <input
+            type="text"
+            name="address_complement"
+            value={contact.address_complement}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="Apto, bloco..."
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="md:col-span-2">
+          {label('Bairro')}
+          <input
+            type="text"
+            name="neighborhood"
+            value={contact.neighborhood}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        <div className="md:col-span-2">
+          {label('Cidade')}
+          <input
+            type="text"
+            name="city"
+            value={contact.city}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          {label('UF')}
+          <input
+            type="text"
+            name="state"
+            value={contact.state}
+            onChange={handleChange}
+            maxLength={2}
+            className={`${inputClassName} uppercase`}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          {label('Contato de Emergência')}
+          <input
+            type="text"
+            name="emergency_contact_name"
+            value={contact.emergency_contact_name}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="Nome"
+          />
+        </div>
+        <div>
+          {label('Telefone de Emergência')}
+          <InputMask
+            mask={phoneMask(contact.emergency_contact_phone)}
+            type="tel"
+            name="emergency_contact_phone"
+            value={contact.emergency_contact_phone}
+            onChange={handleChange}
+            className={inputClassName}
+            placeholder="(00) 00000-0000"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PatientContactFields;
@@ -0,0 +1,45 @@
+import { AlertTriangle } from 'lucide-react';
+import { PatientMatch, PatientSummary, formatCpf } from '../lib/patients';
+
+interface PatientMatchNoticeProps {
+  matches: PatientMatch[];
+  onReuse: (patient: PatientSummary) => void;
+  // Cadastro já escolhido para reaproveitar, se houver
+  selectedId?: string | null;
+}
+
+const PatientMatchNotice = ({ matches, onReuse, selectedId }: PatientMatchNoticeProps) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm space-y-2">
+      <p className="flex items-center gap-2 font-medium text-yellow-800">
+        <AlertTriangle className="w-4 h-4" />
+        Paciente já cadastrado?
+      </p>
+      {matches.map(({ patient, sameCpf }) => (
+        <div key={patient.id} className="flex justify-between items-center gap-2">
+          <span className="text-gray-700">
+            {patient.name} · CPF {formatCpf(patient.cpf)}
+            <span className="block text-xs text-gray-500">
+              {sameCpf ? 'Mesmo CPF' : 'Nome parecido'}
+            </span>
+          </span>
+          {patient.id === selectedId ? (
+            <span className="text-green-700">Cadastro em uso</span>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onReuse(patient)}
+              className="text-primary hover:underline whitespace-nowrap"
+            >
+              Usar este cadastro
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PatientMatchNotice;
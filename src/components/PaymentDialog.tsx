@@ -0,0 +1,291 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import { recordPayment, remainingCents } from '../lib/payments';
+import { formatCents, fromCents, toCents } from '../lib/money';
+import { PAYMENT_METHOD_LABELS } from '../lib/paymentMethods';
+import { LateFeeRule, calculateLateCharges } from '../lib/lateFees';
+
+const timeZone = 'America/Sao_Paulo';
+
+interface PaymentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  installment: {
+    id: string;
+    installment_value: number;
+    amount_paid: number;
+    next_payment_date: string;
+    leg: {
+      payment_method: string;
+    };
+  } | null;
+  // Regra de multa e juros da clínica; sem ela o pagamento não tem encargos
+  lateFeeRule?: LateFeeRule;
+  title?: string;
+}
+
+type PaymentForm = {
+  paid_at: string;
+  amount: string;
+  fine: string;
+  interest: string;
+  payment_method: string;
+  note: string;
+};
+
+const PaymentDialog = ({ isOpen, onClose, onSuccess, installment, lateFeeRule, title }: PaymentDialogProps) => {
+  const [formData, setFormData] = useState<PaymentForm>({
+    paid_at: '',
+    amount: '',
+    fine: '0.00',
+    interest: '0.00',
+    payment_method: 'pix',
+    note: '',
+  });
+  const [loading, setLoading] = useState(false);
+
+  // Recalcula multa e juros sobre o principal pago na data do pagamento
+  const withLateCharges = (data: PaymentForm): PaymentForm => {
+    if (!installment || !lateFeeRule) return data;
+    const charges = calculateLateCharges(toCents(data.amount), installment.next_payment_date, data.paid_at, lateFeeRule);
+    return {
+      ...data,
+      fine: fromCents(charges.fineCents).toFixed(2),
+      interest: fromCents(charges.interestCents).toFixed(2),
+    };
+  };
+
+  useEffect(() => {
+    if (installment) {
+      setFormData(withLateCharges({
+        paid_at: format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd'),
+        amount: fromCents(remainingCents(installment)).toFixed(2),
+        fine: '0.00',
+        interest: '0.00',
+        payment_method: installment.leg.payment_method,
+        note: '',
+      }));
+    }
+  }, [installment]);
+
+  if (!isOpen || !installment) return null;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+
+    if (name === 'amount' || name === 'fine' || name === 'interest') {
+      // Remove tudo que não for número
+      const numericValue = value.replace(/\D/g, '');
+      const cents = (parseInt(numericValue || '0', 10) / 100).toFixed(2);
+      setFormData(prev => name === 'amount'
+        ? withLateCharges({ ...prev, amount: cents })
+        : { ...prev, [name]: cents });
+    } else if (name === 'paid_at') {
+      setFormData(prev => withLateCharges({ ...prev, paid_at: value }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const formatCurrency = (value: string) => {
+    if (!value) return '';
+    const numericValue = parseFloat(value);
+    if (isNaN(numericValue)) return '';
+
+    return numericValue.toLocaleString('pt-BR', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountCents = toCents(formData.amount);
+    if (amountCents <= 0) {
+      toast.error('Informe o valor recebido.');
+      return;
+    }
+    if (amountCents > remainingCents(installment)) {
+      toast.error(`O valor excede o saldo da parcela (${formatCents(remainingCents(installment))}).`);
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Registrando pagamento...');
+
+    try {
+      await recordPayment({
+        appointmentId: installment.id,
+        paidAt: formData.paid_at,
+        amountCents,
+        fineCents: toCents(formData.fine),
+        interestCents: toCents(formData.interest),
+        paymentMethod: formData.payment_method,
+        note: formData.note,
+      });
+
+      await onSuccess();
+      toast.success('Pagamento registrado com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error registering payment:', error);
+      toast.error('Erro ao registrar pagamento.', { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Os campos de encargos aparecem quando o pagamento é feito após o vencimento
+  const hasLateCharges = !!lateFeeRule && formData.paid_at > installment.next_payment_date;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">{title || 'Registrar Pagamento'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {Number(installment.amount_paid) > 0 && (
+            <p className="text-sm text-gray-600">
+              Já pago: {formatCents(toCents(installment.amount_paid))} · Saldo: {formatCents(remainingCents(installment))}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Data do Pagamento
+              </label>
+              <input
+                type="date"
+                name="paid_at"
+                value={formData.paid_at}
+                onChange={handleInputChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Valor Recebido
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                <input
+                  type="text"
+                  name="amount"
+                  value={formatCurrency(formData.amount)}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                />
+              </div>
+            </div>
+          </div>
+
+          {hasLateCharges && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Multa
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                    <input
+                      type="text"
+                      name="fine"
+                      value={formatCurrency(formData.fine)}
+                      onChange={handleInputChange}
+                      className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Juros
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                    <input
+                      type="text"
+                      name="interest"
+                      value={formatCurrency(formData.interest)}
+                      onChange={handleInputChange}
+                      className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                    />
+                  </div>
+                </div>
+              </div>
+              <p className="text-sm text-gray-600">
+                Total a receber: <span className="font-medium text-gray-900">
+                  {formatCents(toCents(formData.amount) + toCents(formData.fine) + toCents(formData.interest))}
+                </span>
+              </p>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Forma de Pagamento
+            </label>
+            <select
+              name="payment_method"
+              value={formData.payment_method}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Observação
+            </label>
+            <textarea
+              name="note"
+              value={formData.note}
+              onChange={handleInputChange}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Opcional"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Registrar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentDialog;
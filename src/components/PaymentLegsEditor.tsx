@@ -0,0 +1,167 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { formatCents, toCents } from '../lib/money';
+import { PAYMENT_METHOD_LABELS, allowsInstallments, paymentMethodConfig } from '../lib/paymentMethods';
+import { CARD_BRANDS, hasAcquirerFees } from '../lib/fees';
+import { EMPTY_PAYMENT_LEG, PaymentLegForm, remainingLegCents } from '../lib/treatments';
+
+interface PaymentLegsEditorProps {
+  legs: PaymentLegForm[];
+  onChange: (legs: PaymentLegForm[]) => void;
+  totalCents: number;
+  downPaymentCents: number;
+}
+
+const formatAmount = (value: string) => {
+  if (!value) return '';
+  return (toCents(value) / 100).toLocaleString('pt-BR', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed';
+
+const PaymentLegsEditor = ({ legs, onChange, totalCents, downPaymentCents }: PaymentLegsEditorProps) => {
+  const updateLeg = (index: number, changes: Partial<PaymentLegForm>) => {
+    onChange(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+  };
+
+  const handleChange = (index: number, e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+
+    if (name === 'amount') {
+      const numericValue = value.replace(/\D/g, '');
+      updateLeg(index, { amount: (parseInt(numericValue || '0', 10) / 100).toFixed(2) });
+    } else if (name === 'payment_method' && !allowsInstallments(value)) {
+      updateLeg(index, { payment_method: value, installments: '1' });
+    } else {
+      updateLeg(index, { [name]: value });
+    }
+  };
+
+  const removeLeg = (index: number) => {
+    onChange(legs.filter((_, i) => i !== index));
+  };
+
+  const remainder = remainingLegCents(totalCents, downPaymentCents, legs);
+
+  return (
+    <div className="space-y-4">
+      {legs.map((leg, index) => {
+        const isLast = index === legs.length - 1;
+        const requiresDueDate = paymentMethodConfig(leg.payment_method).requiresDueDate;
+
+        return (
+          <div key={index} className="border border-gray-200 rounded-md p-4">
+            <div className="flex justify-between items-center mb-3">
+              <span className="text-sm font-medium text-gray-700">
+                {legs.length > 1 ? `Forma de pagamento ${index + 1}` : 'Forma de pagamento'}
+              </span>
+              {legs.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => removeLeg(index)}
+                  className="p-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded-full transition-colors"
+                  title="Remover forma de pagamento"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Método</label>
+                <select
+                  name="payment_method"
+                  value={leg.payment_method}
+                  onChange={e => handleChange(index, e)}
+                  className={inputClassName}
+                >
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Valor</label>
+                {isLast ? (
+                  <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-700">
+                    {formatCents(Math.max(remainder, 0))}
+                    {legs.length > 1 && <span className="text-xs text-gray-500"> · restante</span>}
+                  </div>
+                ) : (
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                    <input
+                      type="text"
+                      name="amount"
+                      value={formatAmount(leg.amount)}
+                      onChange={e => handleChange(index, e)}
+                      required
+                      className={`${inputClassName} pl-10`}
+                      placeholder="0,00"
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Parcelas</label>
+                <input
+                  type="number"
+                  name="installments"
+                  value={leg.installments}
+                  onChange={e => handleChange(index, e)}
+                  min="1"
+                  required
+                  disabled={!allowsInstallments(leg.payment_method)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">
+                  {requiresDueDate ? '1º vencimento' : '1º vencimento (opcional)'}
+                </label>
+                <input
+                  type="date"
+                  name="first_due_date"
+                  value={leg.first_due_date}
+                  onChange={e => handleChange(index, e)}
+                  required={requiresDueDate}
+                  className={inputClassName}
+                />
+              </div>
+              {hasAcquirerFees(leg.payment_method) && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Bandeira</label>
+                  <select
+                    name="card_brand"
+                    value={leg.card_brand}
+                    onChange={e => handleChange(index, e)}
+                    className={inputClassName}
+                  >
+                    <option value="">Não informada</option>
+                    {Object.entries(CARD_BRANDS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...legs, { ...EMPTY_PAYMENT_LEG }])}
+        className="flex items-center gap-2 text-sm text-primary hover:underline"
+      >
+        <Plus className="w-4 h-4" />
+        Adicionar outra forma de pagamento
+      </button>
+    </div>
+  );
+};
+
+export default PaymentLegsEditor;
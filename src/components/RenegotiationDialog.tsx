@@ -0,0 +1,327 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import { formatCents, fromCents, toCents } from '../lib/money';
+import { remainingCents } from '../lib/payments';
+import { amountDueCents } from '../lib/lateFees';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import { CardFeeRule, fetchCardFeeRules } from '../lib/fees';
+import { HolidayCalendar, createHolidayCalendar, fetchMunicipalHolidays } from '../lib/schedule';
+import { EMPTY_PAYMENT_LEG, PaymentLegForm, installmentLabel, legLabel, planErrorMessage, planLegs, validatePlan } from '../lib/treatments';
+import { isOpenInstallment, renegotiateInstallments, renegotiatedTotalCents } from '../lib/renegotiations';
+import PaymentLegsEditor from './PaymentLegsEditor';
+
+const timeZone = 'America/Sao_Paulo';
+
+interface RenegotiationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  treatment: {
+    id: string;
+    payment_legs: {
+      id: string;
+      position: number;
+      payment_method: string;
+      installments: number;
+      is_down_payment: boolean;
+    }[];
+    appointments: {
+      id: string;
+      leg_id: string;
+      status: string;
+      installment_number: number;
+      installment_value: number;
+      amount_paid: number;
+      next_payment_date: string;
+    }[];
+  } | null;
+}
+
+const RenegotiationDialog = ({ isOpen, onClose, onSuccess, treatment }: RenegotiationDialogProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includeCharges, setIncludeCharges] = useState(true);
+  const [discount, setDiscount] = useState('');
+  const [note, setNote] = useState('');
+  const [legs, setLegs] = useState<PaymentLegForm[]>([{ ...EMPTY_PAYMENT_LEG }]);
+  const [loading, setLoading] = useState(false);
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(() => createHolidayCalendar());
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+  const [feeRules, setFeeRules] = useState<CardFeeRule[]>([]);
+
+  useEffect(() => {
+    if (treatment) {
+      setSelectedIds(treatment.appointments.filter(isOpenInstallment).map(installment => installment.id));
+      setIncludeCharges(true);
+      setDiscount('');
+      setNote('');
+      setLegs([{ ...EMPTY_PAYMENT_LEG }]);
+    }
+  }, [treatment]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetchMunicipalHolidays()
+      .then(holidays => setHolidayCalendar(createHolidayCalendar(holidays)))
+      .catch(error => console.error('Error fetching holidays:', error));
+
+    fetchClinicSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching settings:', error));
+
+    fetchCardFeeRules()
+      .then(setFeeRules)
+      .catch(error => console.error('Error fetching card fee rules:', error));
+  }, [isOpen]);
+
+  if (!isOpen || !treatment) return null;
+
+  const today = format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd');
+  const openInstallments = treatment.appointments.filter(isOpenInstallment);
+  const selected = openInstallments.filter(installment => selectedIds.includes(installment.id));
+
+  const dues = selected.map(installment => amountDueCents(installment, today, settings));
+  const principalCents = dues.reduce((sum, due) => sum + due.principalCents, 0);
+  const availableChargesCents = dues.reduce((sum, due) => sum + due.fineCents + due.interestCents, 0);
+  const chargesCents = includeCharges ? availableChargesCents : 0;
+  const discountCents = toCents(discount);
+  const totalCents = renegotiatedTotalCents(principalCents, chargesCents, discountCents);
+
+  // O novo plano começa na data da renegociação e segue as regras de cada método
+  const plannedLegs = planLegs({
+    totalCents,
+    downPaymentCents: 0,
+    downPaymentMethod: 'pix',
+    legs,
+    procedureDate: today,
+    calendar: holidayCalendar,
+    remainderTo: settings.installment_remainder,
+    feeRules,
+    scheduleRules: settings.schedule_rules,
+  });
+
+  const toggleInstallment = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const handleDiscountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const numericValue = e.target.value.replace(/\D/g, '');
+    setDiscount(numericValue ? (parseInt(numericValue, 10) / 100).toFixed(2) : '');
+  };
+
+  const formatAmount = (value: string) => {
+    if (!value) return '';
+    return fromCents(toCents(value)).toLocaleString('pt-BR', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selected.length === 0) {
+      toast.error('Selecione ao menos uma parcela para renegociar.');
+      return;
+    }
+    if (totalCents <= 0) {
+      toast.error('O desconto não pode ser maior que o valor renegociado.');
+      return;
+    }
+
+    const planError = validatePlan(plannedLegs, totalCents);
+    if (planError) {
+      toast.error(planError);
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Renegociando parcelas...');
+
+    try {
+      await renegotiateInstallments({
+        treatmentId: treatment.id,
+        installmentIds: selected.map(installment => installment.id),
+        chargesCents,
+        discountCents,
+        legs: plannedLegs,
+        note,
+      });
+
+      await onSuccess();
+      toast.success('Renegociação registrada com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error renegotiating installments:', error);
+      toast.error(planErrorMessage(error, 'Erro ao renegociar parcelas.'), { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Renegociar Parcelas</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Parcelas em Aberto
+            </label>
+            <div className="border border-gray-200 rounded-md divide-y">
+              {openInstallments.map(installment => {
+                const leg = treatment.payment_legs.find(l => l.id === installment.leg_id);
+                const due = amountDueCents(installment, today, settings);
+
+                return (
+                  <label key={installment.id} className="flex items-center justify-between p-3 text-sm cursor-pointer">
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(installment.id)}
+                        onChange={() => toggleInstallment(installment.id)}
+                        className="mr-3"
+                      />
+                      <span>
+                        {leg && installmentLabel(installment.installment_number, leg)}
+                        <span className="block text-gray-600">
+                          Vencimento: {format(parseISO(installment.next_payment_date), 'dd/MM/yyyy')}
+                        </span>
+                      </span>
+                    </span>
+                    <span className="text-right">
+                      {formatCents(remainingCents(installment))}
+                      {due.totalCents !== due.principalCents && (
+                        <span className="block text-xs text-red-600">
+                          + encargos {formatCents(due.totalCents - due.principalCents)}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeCharges}
+                onChange={(e) => setIncludeCharges(e.target.checked)}
+                disabled={availableChargesCents === 0}
+                className="mr-2"
+              />
+              Incluir multa e juros ({formatCents(availableChargesCents)})
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Desconto
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                <input
+                  type="text"
+                  value={formatAmount(discount)}
+                  onChange={handleDiscountChange}
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  placeholder="0,00"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700 space-y-1">
+            <div className="flex justify-between">
+              <span>Saldo das parcelas</span>
+              <span>{formatCents(principalCents)}</span>
+            </div>
+            {chargesCents > 0 && (
+              <div className="flex justify-between">
+                <span>Multa e juros</span>
+                <span>+ {formatCents(chargesCents)}</span>
+              </div>
+            )}
+            {discountCents > 0 && (
+              <div className="flex justify-between">
+                <span>Desconto</span>
+                <span>- {formatCents(discountCents)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-gray-900">
+              <span>Novo total</span>
+              <span>{formatCents(Math.max(totalCents, 0))}</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Novo Plano
+            </label>
+            <PaymentLegsEditor
+              legs={legs}
+              onChange={setLegs}
+              totalCents={Math.max(totalCents, 0)}
+              downPaymentCents={0}
+            />
+            {totalCents > 0 && (
+              <div className="mt-2 text-sm text-gray-600 space-y-1">
+                {plannedLegs.map((leg, index) => (
+                  <p key={index}>
+                    {legLabel(leg)}: {leg.amounts.map((amount, i) =>
+                      `${formatCents(amount)} em ${format(parseISO(leg.dates[i]), 'dd/MM/yyyy')}`
+                    ).join(', ')}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Observação
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Opcional"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Renegociar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RenegotiationDialog;
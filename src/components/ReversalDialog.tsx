@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { reversePayment } from '../lib/payments';
+import { formatCents, toCents } from '../lib/money';
+
+interface ReversalDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  payment: {
+    id: string;
+    paid_at: string;
+    amount: number;
+  } | null;
+}
+
+const ReversalDialog = ({ isOpen, onClose, onSuccess, payment }: ReversalDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+  }, [payment]);
+
+  if (!isOpen || !payment) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reason.trim()) {
+      toast.error('Informe o motivo do estorno.');
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Estornando pagamento...');
+
+    try {
+      await reversePayment(payment.id, reason);
+      await onSuccess();
+      toast.success('Pagamento estornado com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error reversing payment:', error);
+      toast.error('Erro ao estornar pagamento.', { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Estornar Pagamento</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-gray-600">
+            Pagamento de {formatCents(toCents(payment.amount))} em {format(parseISO(payment.paid_at), 'dd/MM/yyyy')}.
+            O registro original é mantido no histórico e a parcela volta a ficar em aberto.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Motivo do Estorno
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Ex: Baixa registrada no paciente errado"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 rounded-md text-white bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Estornando...' : 'Estornar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReversalDialog;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import { recordSession } from '../lib/packages';
+import { Professional, fetchProfessionals } from '../lib/professionals';
+
+const timeZone = 'America/Sao_Paulo';
+
+interface SessionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => Promise<void>;
+  treatment: {
+    id: string;
+    procedure: string;
+    professional_id: string | null;
+  } | null;
+  // Número da sessão que será registrada, para o título
+  sessionNumber: number;
+}
+
+const SessionDialog = ({ isOpen, onClose, onSuccess, treatment, sessionNumber }: SessionDialogProps) => {
+  const [formData, setFormData] = useState({
+    performed_at: '',
+    professional_id: '',
+    notes: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+
+  useEffect(() => {
+    // A sessão parte do profissional responsável pelo tratamento
+    setFormData({
+      performed_at: format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd'),
+      professional_id: treatment?.professional_id || '',
+      notes: '',
+    });
+  }, [treatment]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetchProfessionals()
+      .then(setProfessionals)
+      .catch(error => console.error('Error fetching professionals:', error));
+  }, [isOpen]);
+
+  if (!isOpen || !treatment) return null;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    const toastId = toast.loading('Registrando sessão...');
+
+    try {
+      await recordSession({
+        treatmentId: treatment.id,
+        performedAt: formData.performed_at,
+        professionalId: formData.professional_id || null,
+        notes: formData.notes,
+      });
+
+      await onSuccess();
+      toast.success('Sessão registrada com sucesso!', { id: toastId });
+      onClose();
+    } catch (error) {
+      console.error('Error recording session:', error);
+      toast.error('Erro ao registrar sessão.', { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold">Registrar Sessão {sessionNumber}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-gray-600">{treatment.procedure}</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Data
+              </label>
+              <input
+                type="date"
+                name="performed_at"
+                value={formData.performed_at}
+                onChange={handleInputChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Profissional
+              </label>
+              <select
+                name="professional_id"
+                value={formData.professional_id}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              >
+                <option value="">Não informado</option>
+                {professionals
+                  .filter(professional => professional.active || professional.id === formData.professional_id)
+                  .map(professional => (
+                    <option key={professional.id} value={professional.id}>{professional.name}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Observação
+            </label>
+            <textarea
+              name="notes"
+              value={formData.notes}
+              onChange={handleInputChange}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Opcional"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Registrar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SessionDialog;
@@ -0,0 +1,137 @@
+import { format } from 'date-fns';
+import { utcToZonedTime, zonedTimeToUtc } from 'date-fns-tz';
+import { supabase } from './supabase';
+
+const timeZone = 'America/Sao_Paulo';
+
+// Grade da agenda: horário de funcionamento e tamanho de cada horário
+export const AGENDA_START_HOUR = 7;
+export const AGENDA_END_HOUR = 21;
+export const SLOT_MINUTES = 30;
+
+export type BookingStatus = 'scheduled' | 'done' | 'cancelled';
+
+export interface Booking {
+  id: string;
+  patient_id: string | null;
+  patient_name: string;
+  procedure: string | null;
+  professional_id: string | null;
+  room_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  status: BookingStatus;
+  treatment_id: string | null;
+  notes: string | null;
+  equipment: { resource_id: string }[];
+}
+
+export interface BookingInput {
+  patientId: string | null;
+  patientName: string;
+  procedure: string;
+  professionalId: string | null;
+  roomId: string | null;
+  startsAt: string;
+  endsAt: string;
+  notes: string;
+  equipmentIds: string[];
+}
+
+const toMillis = (value: string) => new Date(value).getTime();
+
+// Data e hora no fuso da clínica para o instante em UTC gravado no banco
+export const clinicDateTime = (date: string, time: string) =>
+  zonedTimeToUtc(`${date}T${time}:00`, timeZone).toISOString();
+
+export const clinicDate = (instant: string) => format(utcToZonedTime(instant, timeZone), 'yyyy-MM-dd');
+
+export const clinicTime = (instant: string) => format(utcToZonedTime(instant, timeZone), 'HH:mm');
+
+// Minutos desde a meia-noite no fuso da clínica
+export const clinicMinutes = (instant: string) => {
+  const zoned = utcToZonedTime(instant, timeZone);
+  return zoned.getHours() * 60 + zoned.getMinutes();
+};
+
+export const bookingDurationMinutes = (booking: { starts_at: string; ends_at: string }) =>
+  Math.round((toMillis(booking.ends_at) - toMillis(booking.starts_at)) / 60000);
+
+export const bookingUsesResource = (booking: Pick<Booking, 'room_id' | 'equipment'>, resourceId: string) =>
+  booking.room_id === resourceId || booking.equipment.some(item => item.resource_id === resourceId);
+
+// Agendamentos que ocupam o mesmo profissional, a mesma sala ou o mesmo equipamento no mesmo horário.
+// Compara instantes, pois o banco devolve "+00:00" e o navegador gera "Z"
+export const findConflicts = (
+  booking: Pick<Booking, 'starts_at' | 'ends_at' | 'professional_id' | 'room_id' | 'equipment'> & { id?: string },
+  bookings: Booking[]
+) => bookings.filter(other =>
+  other.id !== booking.id
+  && other.status !== 'cancelled'
+  && toMillis(other.starts_at) < toMillis(booking.ends_at)
+  && toMillis(booking.starts_at) < toMillis(other.ends_at)
+  && ((booking.professional_id !== null && other.professional_id === booking.professional_id)
+    || (booking.room_id !== null && other.room_id === booking.room_id)
+    || booking.equipment.some(item => bookingUsesResource(other, item.resource_id)))
+);
+
+// O banco recusa sala ou equipamento já reservados; a sala pela restrição de exclusão (23P01)
+// e o equipamento por RAISE EXCEPTION com o nome do equipamento
+export const bookingErrorMessage = (error: unknown, fallback: string) => {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  if (code === '23P01') return 'A sala já está reservada nesse horário.';
+  return code === 'P0001' && message ? message : fallback;
+};
+
+// Agendamentos que cruzam o intervalo, exceto os cancelados
+export const fetchBookings = async (from: string, to: string): Promise<Booking[]> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*, equipment:booking_equipment(resource_id)')
+    .lt('starts_at', to)
+    .gt('ends_at', from)
+    .neq('status', 'cancelled')
+    .order('starts_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Grava o agendamento e os equipamentos reservados em uma única transação
+export const saveBooking = async (id: string | null, input: BookingInput) => {
+  const { data, error } = await supabase.rpc('save_booking', {
+    p_booking_id: id,
+    p_patient_id: input.patientId,
+    p_patient_name: input.patientName,
+    p_procedure: input.procedure.trim() || null,
+    p_professional_id: input.professionalId,
+    p_room_id: input.roomId,
+    p_starts_at: input.startsAt,
+    p_ends_at: input.endsAt,
+    p_notes: input.notes.trim() || null,
+    p_equipment_ids: input.equipmentIds,
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+// Arrastar na agenda muda só o horário e, na visão do dia, o profissional
+export const moveBooking = async (id: string, changes: Pick<Booking, 'starts_at' | 'ends_at' | 'professional_id'>) => {
+  const { error } = await supabase
+    .from('bookings')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const setBookingStatus = async (id: string, status: BookingStatus) => {
+  const { error } = await supabase
+    .from('bookings')
+    .update({ status })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
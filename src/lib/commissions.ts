@@ -0,0 +1,209 @@
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { fromCents, toCents } from './money';
+import { paymentNetCents } from './payments';
+
+export type CommissionBase = 'gross' | 'net';
+
+export const COMMISSION_BASE_LABELS: Record<CommissionBase, string> = {
+  gross: 'Valor bruto',
+  net: 'Valor líquido',
+};
+
+export interface CommissionRule {
+  id: string;
+  professional_id: string;
+  // null: vale para todos os procedimentos sem regra específica
+  procedure_id: string | null;
+  percent: number;
+  base: CommissionBase;
+}
+
+export interface CommissionLine {
+  paymentId: string;
+  paidAt: string;
+  patientName: string;
+  procedure: string;
+  grossCents: number;
+  netCents: number;
+  rule: CommissionRule | null;
+  commissionCents: number;
+}
+
+export interface CommissionSummary {
+  professionalId: string;
+  lines: CommissionLine[];
+  grossCents: number;
+  commissionCents: number;
+}
+
+// Pagamento recebido no mês com o tratamento e o profissional responsável
+interface ReceivedPayment {
+  id: string;
+  paid_at: string;
+  amount: number;
+  reversal: { id: string } | null;
+  appointment: {
+    installment_value: number;
+    net_value: number;
+    treatment: {
+      procedure: string;
+      procedure_id: string | null;
+      professional_id: string | null;
+      patient: { name: string };
+    };
+  };
+}
+
+export const fetchCommissionRules = async (): Promise<CommissionRule[]> => {
+  const { data, error } = await supabase
+    .from('commission_rules')
+    .select('id, professional_id, procedure_id, percent, base')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+interface CommissionRuleInput {
+  professionalId: string;
+  procedureId: string | null;
+  percent: number;
+  base: CommissionBase;
+}
+
+export const createCommissionRule = async ({ professionalId, procedureId, percent, base }: CommissionRuleInput) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('commission_rules')
+    .insert([{
+      professional_id: professionalId,
+      procedure_id: procedureId,
+      percent,
+      base,
+      user_id: user.id,
+    }]);
+
+  if (error) throw error;
+};
+
+export const deleteCommissionRule = async (id: string) => {
+  const { error } = await supabase
+    .from('commission_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// A regra do procedimento tem prioridade sobre a regra geral do profissional
+export const findCommissionRule = (rules: CommissionRule[], professionalId: string, procedureId: string | null) =>
+  rules.find(rule => rule.professional_id === professionalId && procedureId !== null && rule.procedure_id === procedureId)
+  || rules.find(rule => rule.professional_id === professionalId && rule.procedure_id === null)
+  || null;
+
+// Comissões sobre o principal recebido no mês; multa, juros e estornos não entram
+export const commissionReport = (payments: ReceivedPayment[], rules: CommissionRule[]): CommissionSummary[] => {
+  const summaries = new Map<string, CommissionSummary>();
+
+  payments
+    .filter(payment => !payment.reversal && payment.appointment.treatment.professional_id)
+    .forEach(payment => {
+      const { treatment } = payment.appointment;
+      const professionalId = treatment.professional_id as string;
+      const rule = findCommissionRule(rules, professionalId, treatment.procedure_id);
+      const grossCents = toCents(payment.amount);
+      const netCents = paymentNetCents(payment.amount, payment.appointment.installment_value, payment.appointment.net_value);
+      const baseCents = rule?.base === 'net' ? netCents : grossCents;
+      const commissionCents = rule ? Math.round(baseCents * Number(rule.percent) / 100) : 0;
+
+      const summary = summaries.get(professionalId)
+        || { professionalId, lines: [], grossCents: 0, commissionCents: 0 };
+      summary.lines.push({
+        paymentId: payment.id,
+        paidAt: payment.paid_at,
+        patientName: treatment.patient.name,
+        procedure: treatment.procedure,
+        grossCents,
+        netCents,
+        rule,
+        commissionCents,
+      });
+      summary.grossCents += grossCents;
+      summary.commissionCents += commissionCents;
+      summaries.set(professionalId, summary);
+    });
+
+  return Array.from(summaries.values());
+};
+
+// month no formato yyyy-MM
+export const fetchCommissionReport = async (month: string, rules: CommissionRule[]) => {
+  const firstDay = `${month}-01`;
+  const lastDay = format(endOfMonth(parseISO(firstDay)), 'yyyy-MM-dd');
+
+  const { data, error } = await supabase
+    .from('payments')
+    .select(`
+      id, paid_at, amount,
+      reversal:payment_reversals(id),
+      appointment:appointments(
+        installment_value, net_value,
+        treatment:treatments(procedure, procedure_id, professional_id, patient:patients(name))
+      )
+    `)
+    .gte('paid_at', firstDay)
+    .lte('paid_at', lastDay)
+    .order('paid_at')
+    .returns<ReceivedPayment[]>();
+
+  if (error) throw error;
+  return commissionReport(data || [], rules);
+};
+
+// Profissionais com a comissão do mês já lançada no caixa
+export const fetchGeneratedCommissions = async (month: string) => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('professional_id')
+    .eq('commission_month', `${month}-01`);
+
+  if (error) throw error;
+  return new Set((data || []).map(expense => expense.professional_id as string));
+};
+
+interface CommissionExpenseInput {
+  professional: { id: string; name: string; expense_category_id: string | null };
+  month: string;
+  commissionCents: number;
+}
+
+// Lança a comissão do mês como despesa no Controle de Caixa, no último dia do mês
+export const generateCommissionExpense = async ({ professional, month, commissionCents }: CommissionExpenseInput) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const firstDay = parseISO(`${month}-01`);
+  const { error } = await supabase
+    .from('expenses')
+    .insert([{
+      name: `Comissão ${professional.name} ${format(firstDay, 'MM/yyyy')}`,
+      amount: fromCents(commissionCents),
+      date: format(endOfMonth(firstDay), 'yyyy-MM-dd'),
+      observations: 'Gerada pelo relatório de comissões',
+      category_id: professional.expense_category_id,
+      professional_id: professional.id,
+      commission_month: format(firstDay, 'yyyy-MM-dd'),
+      user_id: user.id,
+    }]);
+
+  if (error) throw error;
+};
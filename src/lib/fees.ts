@@ -0,0 +1,102 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { HolidayCalendar, addBusinessDays, rollToBusinessDay } from './schedule';
+import { paymentMethodConfig } from './paymentMethods';
+
+export const CARD_BRANDS: Record<string, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  elo: 'Elo',
+  amex: 'American Express',
+  hipercard: 'Hipercard',
+};
+
+export interface CardFeeRule {
+  id: string;
+  payment_method: string;
+  // null vale para qualquer bandeira sem regra própria
+  brand: string | null;
+  installments_from: number;
+  installments_to: number;
+  // Taxa da maquininha (MDR) sobre o valor bruto de cada parcela
+  mdr_percent: number;
+  // Taxa mensal de antecipação; 0 = recebe cada parcela no seu vencimento
+  anticipation_percent: number;
+  // Com antecipação, dias corridos após a venda até o crédito na conta
+  settlement_days: number;
+}
+
+export interface Receivables {
+  netAmounts: number[];
+  settlementDates: string[];
+}
+
+// Métodos cobrados pela maquininha
+export const hasAcquirerFees = (method: string) => paymentMethodConfig(method).acquirerFees;
+
+export const cardBrandLabel = (brand: string | null | undefined) =>
+  brand ? CARD_BRANDS[brand] || brand : 'Todas as bandeiras';
+
+export const fetchCardFeeRules = async (): Promise<CardFeeRule[]> => {
+  const { data, error } = await supabase
+    .from('card_fee_rules')
+    .select('id, payment_method, brand, installments_from, installments_to, mdr_percent, anticipation_percent, settlement_days')
+    .order('payment_method')
+    .order('brand', { nullsFirst: true })
+    .order('installments_from');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Regra da bandeira tem prioridade sobre a regra genérica
+export const findCardFeeRule = (rules: CardFeeRule[], method: string, brand: string | null, installments: number) => {
+  const matches = rules.filter(rule =>
+    rule.payment_method === method
+      && installments >= rule.installments_from
+      && installments <= rule.installments_to
+  );
+  return matches.find(rule => brand && rule.brand === brand)
+    || matches.find(rule => rule.brand === null)
+    || null;
+};
+
+export const calculateReceivables = (
+  amounts: number[],
+  dueDates: string[],
+  saleDate: string,
+  method: string,
+  rule: CardFeeRule | null,
+  calendar: HolidayCalendar
+): Receivables => {
+  // Sem antecipação, cada parcela cai na conta no prazo do método após o vencimento
+  const { settlementBusinessDays } = paymentMethodConfig(method);
+  const regularSettlementDates = dueDates.map(date =>
+    format(addBusinessDays(parseISO(date), settlementBusinessDays, calendar), 'yyyy-MM-dd')
+  );
+
+  if (!rule) {
+    return { netAmounts: [...amounts], settlementDates: regularSettlementDates };
+  }
+
+  const mdr = Number(rule.mdr_percent) / 100;
+  const anticipation = Number(rule.anticipation_percent) / 100;
+  const anticipatedDate = anticipation > 0
+    ? rollToBusinessDay(addDays(parseISO(saleDate), rule.settlement_days), 'next', calendar)
+    : null;
+
+  const netAmounts = amounts.map((gross, index) => {
+    const afterMdr = gross - Math.round(gross * mdr);
+    if (!anticipatedDate) return afterMdr;
+
+    // Desconto pro rata pelos dias que a parcela foi adiantada
+    const daysAdvanced = Math.max(differenceInCalendarDays(parseISO(dueDates[index]), anticipatedDate), 0);
+    return afterMdr - Math.round(afterMdr * anticipation * daysAdvanced / 30);
+  });
+
+  const settlementDates = anticipatedDate
+    ? dueDates.map(() => format(anticipatedDate, 'yyyy-MM-dd'))
+    : regularSettlementDates;
+
+  return { netAmounts, settlementDates };
+};
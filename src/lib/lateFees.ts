@@ -0,0 +1,45 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { remainingCents } from './payments';
+
+export interface LateFeeRule {
+  // Multa única sobre o valor em atraso
+  late_fine_percent: number;
+  // Juros ao mês, cobrados pro rata por dia de atraso
+  late_interest_percent: number;
+}
+
+export interface LateCharges {
+  daysLate: number;
+  fineCents: number;
+  interestCents: number;
+}
+
+const NO_CHARGES: LateCharges = { daysLate: 0, fineCents: 0, interestCents: 0 };
+
+// Encargos sobre um valor de principal pago (ou devido) em uma data após o vencimento
+export const calculateLateCharges = (
+  principalCents: number,
+  dueDate: string,
+  onDate: string,
+  rule: LateFeeRule
+): LateCharges => {
+  const daysLate = differenceInCalendarDays(parseISO(onDate), parseISO(dueDate));
+  if (daysLate <= 0 || principalCents <= 0) return NO_CHARGES;
+
+  return {
+    daysLate,
+    fineCents: Math.round(principalCents * Number(rule.late_fine_percent) / 100),
+    interestCents: Math.round(principalCents * Number(rule.late_interest_percent) / 100 * daysLate / 30),
+  };
+};
+
+// Saldo da parcela atualizado com multa e juros até a data informada
+export const amountDueCents = (
+  installment: { installment_value: number; amount_paid: number; next_payment_date: string },
+  onDate: string,
+  rule: LateFeeRule
+) => {
+  const principalCents = remainingCents(installment);
+  const charges = calculateLateCharges(principalCents, installment.next_payment_date, onDate, rule);
+  return { principalCents, ...charges, totalCents: principalCents + charges.fineCents + charges.interestCents };
+};
@@ -0,0 +1,31 @@
+// Valores monetários são calculados em centavos inteiros e gravados como numeric(12,2)
+
+export type RemainderPlacement = 'first' | 'last';
+
+export const toCents = (value: number | string | null | undefined): number => {
+  const numericValue = typeof value === 'string' ? parseFloat(value) : value;
+  if (numericValue === null || numericValue === undefined || isNaN(numericValue)) return 0;
+  return Math.round(numericValue * 100);
+};
+
+export const fromCents = (cents: number): number => cents / 100;
+
+export const sumCents = (values: (number | string)[]): number =>
+  values.reduce<number>((sum, value) => sum + toCents(value), 0);
+
+// Divide o total em parcelas que somam exatamente o valor contratado;
+// os centavos que sobram da divisão vão para a primeira ou a última parcela
+export const splitCents = (totalCents: number, parts: number, remainderTo: RemainderPlacement = 'first'): number[] => {
+  const count = Math.max(parts, 1);
+  const base = Math.floor(totalCents / count);
+  const remainder = totalCents - base * count;
+  const amounts = Array<number>(count).fill(base);
+  amounts[remainderTo === 'first' ? 0 : count - 1] += remainder;
+  return amounts;
+};
+
+export const formatCents = (cents: number) =>
+  fromCents(cents).toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  });
@@ -0,0 +1,120 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+
+// Dias antes do fim da validade em que o pacote passa a ser sinalizado
+export const PACKAGE_EXPIRY_WARNING_DAYS = 30;
+
+export interface TreatmentSession {
+  id: string;
+  performed_at: string;
+  // Texto livre das sessões registradas antes do cadastro de profissionais
+  professional: string | null;
+  professional_id: string | null;
+  performer?: { name: string } | null;
+  notes: string | null;
+}
+
+export const sessionProfessionalName = (session: TreatmentSession) =>
+  session.performer?.name || session.professional;
+
+export interface PackageStatus {
+  purchased: number;
+  performed: number;
+  remaining: number;
+  fullyUsed: boolean;
+  expired: boolean;
+  // Sessões restantes e validade terminando nos próximos dias
+  expiringSoon: boolean;
+  daysToExpiry: number | null;
+}
+
+// null quando o tratamento não é vendido como pacote
+export const packageStatus = (
+  treatment: { sessions_purchased: number | null; package_valid_until: string | null },
+  sessions: TreatmentSession[],
+  today: string
+): PackageStatus | null => {
+  if (!treatment.sessions_purchased) return null;
+
+  const performed = sessions.length;
+  const remaining = Math.max(treatment.sessions_purchased - performed, 0);
+  const daysToExpiry = treatment.package_valid_until
+    ? differenceInCalendarDays(parseISO(treatment.package_valid_until), parseISO(today))
+    : null;
+
+  return {
+    purchased: treatment.sessions_purchased,
+    performed,
+    remaining,
+    fullyUsed: remaining === 0,
+    expired: remaining > 0 && daysToExpiry !== null && daysToExpiry < 0,
+    expiringSoon: remaining > 0 && daysToExpiry !== null && daysToExpiry >= 0 && daysToExpiry <= PACKAGE_EXPIRY_WARNING_DAYS,
+    daysToExpiry,
+  };
+};
+
+// Texto do aviso do pacote, ou null quando não há nada a sinalizar
+export const packageWarning = (status: PackageStatus | null) => {
+  if (!status) return null;
+  if (status.fullyUsed) return 'Pacote concluído: todas as sessões foram realizadas';
+  if (status.expired) return `Pacote vencido com ${status.remaining} ${status.remaining === 1 ? 'sessão restante' : 'sessões restantes'}`;
+  if (status.expiringSoon) {
+    return status.daysToExpiry === 0
+      ? 'Validade do pacote termina hoje'
+      : `Validade do pacote termina em ${status.daysToExpiry} dias`;
+  }
+  return null;
+};
+
+interface PackageInput {
+  sessionsPurchased: number | null;
+  validUntil: string | null;
+}
+
+export const savePackage = async (treatmentId: string, { sessionsPurchased, validUntil }: PackageInput) => {
+  const { error } = await supabase
+    .from('treatments')
+    .update({
+      sessions_purchased: sessionsPurchased,
+      package_valid_until: sessionsPurchased ? validUntil : null,
+    })
+    .eq('id', treatmentId);
+
+  if (error) throw error;
+};
+
+interface SessionInput {
+  treatmentId: string;
+  performedAt: string;
+  professionalId: string | null;
+  notes: string;
+}
+
+export const recordSession = async ({ treatmentId, performedAt, professionalId, notes }: SessionInput) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('treatment_sessions')
+    .insert([{
+      treatment_id: treatmentId,
+      performed_at: performedAt,
+      professional_id: professionalId,
+      notes: notes.trim() || null,
+      user_id: user.id,
+    }]);
+
+  if (error) throw error;
+};
+
+export const deleteSession = async (sessionId: string) => {
+  const { error } = await supabase
+    .from('treatment_sessions')
+    .delete()
+    .eq('id', sessionId);
+
+  if (error) throw error;
+};
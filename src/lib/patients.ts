@@ -0,0 +1,255 @@
+import { supabase } from './supabase';
+
+export interface Patient {
+  id: string;
+  name: string;
+  cpf: string;
+  phone: string | null;
+  email: string | null;
+  birth_date: string | null;
+  address: string | null;
+  address_number: string | null;
+  address_complement: string | null;
+  neighborhood: string | null;
+  city: string | null;
+  state: string | null;
+  cep: string | null;
+  whatsapp: string | null;
+  emergency_contact_name: string | null;
+  emergency_contact_phone: string | null;
+  notes: string | null;
+}
+
+export const normalizeCpf = (cpf: string) => cpf.replace(/\D/g, '');
+
+export const formatCpf = (cpf: string) => {
+  const digits = normalizeCpf(cpf);
+  if (digits.length !== 11) return cpf;
+  return digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
+};
+
+// Telefones e CEP são guardados só com dígitos, como o CPF
+export const normalizeDigits = (value: string) => value.replace(/\D/g, '');
+
+// Celulares têm nove dígitos depois do DDD e começam com 9
+export const phoneMask = (value: string) =>
+  normalizeDigits(value).charAt(2) === '9' ? '(99) 99999-9999' : '(99) 9999-9999';
+
+export const formatPhone = (phone: string) => {
+  const digits = normalizeDigits(phone);
+  if (digits.length === 11) return digits.replace(/(\d{2})(\d{5})(\d{4})/, '($1) $2-$3');
+  if (digits.length === 10) return digits.replace(/(\d{2})(\d{4})(\d{4})/, '($1) $2-$3');
+  return phone;
+};
+
+export const formatCep = (cep: string) => {
+  const digits = normalizeDigits(cep);
+  if (digits.length !== 8) return cep;
+  return digits.replace(/(\d{5})(\d{3})/, '$1-$2');
+};
+
+export const phoneLink = (phone: string) => `tel:+55${normalizeDigits(phone)}`;
+
+export const whatsappLink = (phone: string) => `https://wa.me/55${normalizeDigits(phone)}`;
+
+// Ex: "Rua das Flores, 120 - ap 32, Centro, Campinas/SP, 13010-000"
+export const formatAddress = (patient: Pick<Patient,
+  'address' | 'address_number' | 'address_complement' | 'neighborhood' | 'city' | 'state' | 'cep'
+>) => {
+  const street = [patient.address, patient.address_number].filter(Boolean).join(', ');
+  const cityState = [patient.city, patient.state].filter(Boolean).join('/');
+  return [
+    [street, patient.address_complement].filter(Boolean).join(' - '),
+    patient.neighborhood,
+    cityState,
+    patient.cep && formatCep(patient.cep),
+  ].filter(Boolean).join(', ');
+};
+
+// Campos de contato e endereço editados no formulário, como texto
+export const EMPTY_PATIENT_CONTACT = {
+  phone: '',
+  whatsapp: '',
+  email: '',
+  birth_date: '',
+  cep: '',
+  address: '',
+  address_number: '',
+  address_complement: '',
+  neighborhood: '',
+  city: '',
+  state: '',
+  emergency_contact_name: '',
+  emergency_contact_phone: '',
+};
+
+export type PatientContactForm = typeof EMPTY_PATIENT_CONTACT;
+
+const PHONE_FIELDS: (keyof PatientContactForm)[] = ['phone', 'whatsapp', 'emergency_contact_phone'];
+
+export const patientContactForm = (patient: Patient): PatientContactForm => ({
+  phone: patient.phone || '',
+  whatsapp: patient.whatsapp || '',
+  email: patient.email || '',
+  birth_date: patient.birth_date || '',
+  cep: patient.cep || '',
+  address: patient.address || '',
+  address_number: patient.address_number || '',
+  address_complement: patient.address_complement || '',
+  neighborhood: patient.neighborhood || '',
+  city: patient.city || '',
+  state: patient.state || '',
+  emergency_contact_name: patient.emergency_contact_name || '',
+  emergency_contact_phone: patient.emergency_contact_phone || '',
+});
+
+// Converte o formulário nas colunas do paciente; campos vazios viram null
+export const patientContactValues = (form: PatientContactForm) => Object.fromEntries(
+  (Object.keys(form) as (keyof PatientContactForm)[]).map(field => {
+    const value = PHONE_FIELDS.includes(field) || field === 'cep'
+      ? normalizeDigits(form[field])
+      : field === 'state' ? form[field].trim().toUpperCase() : form[field].trim();
+    return [field, value || null];
+  })
+) as Record<keyof PatientContactForm, string | null>;
+
+// Telefones e CEP incompletos seriam recusados pelo banco
+export const validatePatientContact = (form: PatientContactForm): string | null => {
+  const phoneField = PHONE_FIELDS.find(field => {
+    const digits = normalizeDigits(form[field]);
+    return digits.length > 0 && (digits.length < 10 || digits.length > 11);
+  });
+  if (phoneField) return 'Telefone incompleto. Informe o DDD e o número.';
+
+  const cep = normalizeDigits(form.cep);
+  if (cep.length > 0 && cep.length !== 8) return 'CEP incompleto.';
+
+  if (form.state.trim() && !/^[A-Za-z]{2}$/.test(form.state.trim())) return 'Informe a UF com duas letras.';
+  return null;
+};
+
+// Completa o cadastro com os campos preenchidos, sem apagar o que ele já tem
+export const fillPatientContact = async (patientId: string, contact: PatientContactForm) => {
+  const values = Object.fromEntries(
+    Object.entries(patientContactValues(contact)).filter(([, value]) => value !== null)
+  );
+  if (Object.keys(values).length === 0) return;
+
+  const { error } = await supabase
+    .from('patients')
+    .update(values)
+    .eq('id', patientId);
+
+  if (error) throw error;
+};
+
+// Confere os dois dígitos verificadores; sequências repetidas (111.111.111-11) passam
+// na conta mas não são CPFs emitidos. A mesma regra vale no banco (is_valid_cpf)
+export const isValidCpf = (cpf: string) => {
+  const digits = normalizeCpf(cpf);
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    const sum = digits
+      .slice(0, length)
+      .split('')
+      .reduce((total, digit, index) => total + Number(digit) * (length + 1 - index), 0);
+    return (sum * 10) % 11 % 10;
+  };
+
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+};
+
+export const patientErrorMessage = (error: unknown, fallback: string) => {
+  const code = (error as { code?: string } | null)?.code;
+  if (code === '23505') return 'Já existe um paciente com este CPF.';
+  if (code === '23514') return 'CPF inválido. Confira os dígitos verificadores.';
+  return fallback;
+};
+
+export type PatientSummary = Pick<Patient, 'id' | 'name' | 'cpf'>;
+
+export interface PatientMatch {
+  patient: PatientSummary;
+  sameCpf: boolean;
+}
+
+export const fetchPatientSummaries = async (): Promise<PatientSummary[]> => {
+  const { data, error } = await supabase
+    .from('patients')
+    .select('id, name, cpf')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Compara nomes sem acentos, caixa e espaços repetidos
+const normalizeName = (name: string) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Nomes curtos só batem se forem iguais; nos demais, tolera até dois erros de digitação
+const isNearIdenticalName = (a: string, b: string) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  return Math.min(left.length, right.length) >= 8 && editDistance(left, right) <= 2;
+};
+
+// Cadastros que provavelmente são a mesma pessoa: mesmo CPF ou nome quase idêntico
+export const findPatientMatches = (
+  patients: PatientSummary[],
+  { name, cpf, excludeId }: { name: string; cpf: string; excludeId?: string }
+): PatientMatch[] => {
+  const normalizedCpf = normalizeCpf(cpf);
+
+  return patients
+    .filter(patient => patient.id !== excludeId)
+    .map(patient => ({ patient, sameCpf: normalizedCpf.length === 11 && patient.cpf === normalizedCpf }))
+    .filter(({ patient, sameCpf }) => sameCpf || isNearIdenticalName(patient.name, name))
+    .sort((a, b) => Number(b.sameCpf) - Number(a.sameCpf));
+};
+
+// Reaproveita o cadastro existente com o mesmo CPF em vez de criar outro paciente
+export const findOrCreatePatient = async (userId: string, name: string, cpf: string): Promise<Patient> => {
+  const normalizedCpf = normalizeCpf(cpf);
+
+  const { data: existing, error: findError } = await supabase
+    .from('patients')
+    .select('*')
+    .eq('cpf', normalizedCpf)
+    .maybeSingle();
+
+  if (findError) throw findError;
+  if (existing) return existing;
+
+  const { data, error } = await supabase
+    .from('patients')
+    .insert([{ name: name.trim(), cpf: normalizedCpf, user_id: userId }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
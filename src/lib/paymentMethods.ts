@@ -0,0 +1,94 @@
+export interface PaymentMethodConfig {
+  label: string;
+  // Pode ser dividido em várias parcelas
+  allowsInstallments: boolean;
+  // Status da parcela ao ser criada: paga no ato ou aguardando vencimento/compensação
+  initialStatus: 'paid' | 'pending';
+  // Como a parcela aparece enquanto não foi baixada, e o rótulo da ação que a baixa
+  pendingLabel: string;
+  confirmLabel: string;
+  // Dias úteis entre o pagamento e o crédito na conta (ex: débito cai em D+1)
+  settlementBusinessDays: number;
+  // Exige informar o 1º vencimento (ex: data impressa no boleto)
+  requiresDueDate: boolean;
+  // Cobrado pela maquininha (MDR, antecipação)
+  acquirerFees: boolean;
+}
+
+export const PAYMENT_METHODS: Record<string, PaymentMethodConfig> = {
+  credit_card: {
+    label: 'Cartão de Crédito',
+    allowsInstallments: true,
+    initialStatus: 'pending',
+    pendingLabel: 'Pendente',
+    confirmLabel: 'Finalizar',
+    settlementBusinessDays: 0,
+    requiresDueDate: false,
+    acquirerFees: true,
+  },
+  debit_card: {
+    label: 'Cartão de Débito',
+    allowsInstallments: false,
+    initialStatus: 'paid',
+    pendingLabel: 'Pendente',
+    confirmLabel: 'Finalizar',
+    settlementBusinessDays: 1,
+    requiresDueDate: false,
+    acquirerFees: true,
+  },
+  pix: {
+    label: 'PIX',
+    allowsInstallments: false,
+    initialStatus: 'paid',
+    pendingLabel: 'Pendente',
+    confirmLabel: 'Finalizar',
+    settlementBusinessDays: 0,
+    requiresDueDate: false,
+    acquirerFees: false,
+  },
+  cash: {
+    label: 'Dinheiro',
+    allowsInstallments: false,
+    initialStatus: 'paid',
+    pendingLabel: 'Pendente',
+    confirmLabel: 'Finalizar',
+    settlementBusinessDays: 0,
+    requiresDueDate: false,
+    acquirerFees: false,
+  },
+  boleto: {
+    label: 'Boleto',
+    allowsInstallments: true,
+    initialStatus: 'pending',
+    pendingLabel: 'Aguardando compensação',
+    confirmLabel: 'Compensado',
+    settlementBusinessDays: 1,
+    requiresDueDate: true,
+    acquirerFees: false,
+  },
+  bank_transfer: {
+    label: 'TED/Transferência',
+    allowsInstallments: false,
+    initialStatus: 'pending',
+    pendingLabel: 'Aguardando confirmação',
+    confirmLabel: 'Confirmar',
+    settlementBusinessDays: 0,
+    requiresDueDate: false,
+    acquirerFees: false,
+  },
+};
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = Object.fromEntries(
+  Object.entries(PAYMENT_METHODS).map(([method, config]) => [method, config.label])
+);
+
+// A entrada é sempre recebida no dia do procedimento; boleto não se aplica
+export const DOWN_PAYMENT_METHODS = Object.keys(PAYMENT_METHODS).filter(method => method !== 'boleto');
+
+export const paymentMethodConfig = (method: string): PaymentMethodConfig =>
+  PAYMENT_METHODS[method] || PAYMENT_METHODS.cash;
+
+export const allowsInstallments = (method: string) => paymentMethodConfig(method).allowsInstallments;
+
+export const paymentMethodLabel = (method: string | null | undefined) =>
+  method ? PAYMENT_METHOD_LABELS[method] || method : '';
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import { fromCents, toCents } from './money';
+
+export interface PaymentReversal {
+  id: string;
+  reason: string;
+  reversed_by_email: string | null;
+  created_at: string;
+}
+
+export interface Payment {
+  id: string;
+  appointment_id: string;
+  paid_at: string;
+  amount: number;
+  fine_amount: number;
+  interest_amount: number;
+  payment_method: string;
+  registered_by_email: string | null;
+  note: string | null;
+  created_at: string;
+  reversal: PaymentReversal | null;
+}
+
+interface RecordPaymentInput {
+  appointmentId: string;
+  paidAt: string;
+  amountCents: number;
+  fineCents?: number;
+  interestCents?: number;
+  paymentMethod: string;
+  note?: string;
+}
+
+// Registra o recebimento no livro de pagamentos; o banco soma os pagamentos da
+// parcela e só a marca como paga quando o valor total estiver coberto.
+// Multa e juros ficam separados do principal e não abatem o saldo da parcela
+export const recordPayment = async ({
+  appointmentId,
+  paidAt,
+  amountCents,
+  fineCents = 0,
+  interestCents = 0,
+  paymentMethod,
+  note,
+}: RecordPaymentInput) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error: paymentError } = await supabase
+    .from('payments')
+    .insert([{
+      appointment_id: appointmentId,
+      paid_at: paidAt,
+      amount: fromCents(amountCents),
+      fine_amount: fromCents(fineCents),
+      interest_amount: fromCents(interestCents),
+      payment_method: paymentMethod,
+      registered_by: user.id,
+      registered_by_email: user.email,
+      note: note?.trim() || null,
+      user_id: user.id,
+    }]);
+
+  if (paymentError) throw paymentError;
+};
+
+// Saldo que falta pagar da parcela, em centavos
+export const remainingCents = (installment: { installment_value: number; amount_paid: number }) =>
+  Math.max(toCents(installment.installment_value) - toCents(installment.amount_paid), 0);
+
+// Multa e juros recebidos junto com o pagamento
+export const paymentChargesCents = (payment: { fine_amount?: number; interest_amount?: number }) =>
+  toCents(payment.fine_amount) + toCents(payment.interest_amount);
+
+// Parte líquida do recebimento, proporcional ao líquido previsto da parcela
+export const paymentNetCents = (amount: number, installmentValue: number, netValue: number) => {
+  const installmentCents = toCents(installmentValue);
+  if (installmentCents === 0) return toCents(amount);
+  return Math.round(toCents(amount) * toCents(netValue) / installmentCents);
+};
+
+// Estorna um pagamento mantendo o registro original; o banco devolve a parcela para pendente
+export const reversePayment = async (paymentId: string, reason: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('payment_reversals')
+    .insert([{
+      payment_id: paymentId,
+      reason: reason.trim(),
+      reversed_by: user.id,
+      reversed_by_email: user.email,
+      user_id: user.id,
+    }]);
+
+  if (error) throw error;
+};
@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+
+export interface Procedure {
+  id: string;
+  name: string;
+  category: string | null;
+  default_price: number;
+  typical_sessions: number;
+  active: boolean;
+}
+
+// Texto livre de tratamentos antigos que ainda não aponta para o catálogo
+export interface UnmappedProcedure {
+  procedure: string;
+  count: number;
+}
+
+export const fetchProcedures = async (): Promise<Procedure[]> => {
+  const { data, error } = await supabase
+    .from('procedures')
+    .select('id, name, category, default_price, typical_sessions, active')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Mesmo critério do banco: nome igual, ignorando maiúsculas e espaços nas pontas
+export const findProcedureByName = (procedures: Procedure[], name: string) =>
+  procedures.find(procedure => procedure.name.toLowerCase() === name.trim().toLowerCase()) || null;
+
+export const fetchUnmappedProcedures = async (): Promise<UnmappedProcedure[]> => {
+  const { data, error } = await supabase
+    .from('treatments')
+    .select('procedure')
+    .is('procedure_id', null);
+
+  if (error) throw error;
+
+  const counts = new Map<string, number>();
+  (data || []).forEach(({ procedure }) => counts.set(procedure, (counts.get(procedure) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([procedure, count]) => ({ procedure, count }))
+    .sort((a, b) => b.count - a.count || a.procedure.localeCompare(b.procedure));
+};
+
+// Renomeia os tratamentos com o texto antigo para o nome do catálogo; o banco faz o vínculo
+export const mapProcedureText = async (text: string, procedure: Procedure) => {
+  const { error } = await supabase
+    .from('treatments')
+    .update({ procedure: procedure.name })
+    .eq('procedure', text)
+    .is('procedure_id', null);
+
+  if (error) throw error;
+};
@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+
+export interface Professional {
+  id: string;
+  name: string;
+  active: boolean;
+  // Categoria do Controle de Caixa usada nas despesas de comissão
+  expense_category_id: string | null;
+}
+
+export const fetchProfessionals = async (): Promise<Professional[]> => {
+  const { data, error } = await supabase
+    .from('professionals')
+    .select('id, name, active, expense_category_id')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createProfessional = async (name: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('professionals')
+    .insert([{ name: name.trim(), user_id: user.id }]);
+
+  if (error) throw error;
+};
+
+export const setProfessionalActive = async (id: string, active: boolean) => {
+  const { error } = await supabase
+    .from('professionals')
+    .update({ active })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const setProfessionalExpenseCategory = async (id: string, categoryId: string | null) => {
+  const { error } = await supabase
+    .from('professionals')
+    .update({ expense_category_id: categoryId })
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,310 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { formatCents } from './money';
+import { LateFeeRule, amountDueCents } from './lateFees';
+import { installmentLabel } from './treatments';
+import { whatsappLink } from './patients';
+
+export type ReminderKind = 'upcoming' | 'due_today' | 'overdue';
+
+export const REMINDER_KINDS: ReminderKind[] = ['upcoming', 'due_today', 'overdue'];
+
+export const REMINDER_KIND_LABELS: Record<ReminderKind, string> = {
+  upcoming: 'Vencimento próximo',
+  due_today: 'Vence hoje',
+  overdue: 'Em atraso',
+};
+
+export type NotificationChannel = 'email' | 'whatsapp';
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'E-mail',
+  whatsapp: 'WhatsApp',
+};
+
+// E-mails saem pela função send-notifications; o WhatsApp é enviado pela recepção
+export const MANUAL_CHANNELS: NotificationChannel[] = ['whatsapp'];
+
+export type NotificationStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export const NOTIFICATION_STATUS_LABELS: Record<NotificationStatus, string> = {
+  queued: 'Na fila',
+  sending: 'Enviando',
+  sent: 'Enviado',
+  failed: 'Falhou',
+  cancelled: 'Cancelado',
+};
+
+export interface ReminderTemplate {
+  kind: ReminderKind;
+  // Dias antes do vencimento (próximo) ou depois dele (em atraso)
+  days: number;
+  subject: string;
+  body: string;
+  active: boolean;
+}
+
+export interface ReminderNotification {
+  id: string;
+  appointment_id: string;
+  patient_id: string | null;
+  kind: ReminderKind;
+  channel: NotificationChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  due_date: string;
+  status: NotificationStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+// Parcela em aberto com o paciente, como lida para gerar os lembretes
+export interface ReminderInstallment {
+  id: string;
+  installment_number: number;
+  installment_value: number;
+  amount_paid: number;
+  next_payment_date: string;
+  leg: {
+    payment_method: string;
+    installments: number;
+    is_down_payment: boolean;
+  };
+  treatment: {
+    procedure: string;
+    patient: {
+      id: string;
+      name: string;
+      email: string | null;
+      whatsapp: string | null;
+    };
+  };
+}
+
+export interface ReminderCandidate {
+  installment: ReminderInstallment;
+  kind: ReminderKind;
+}
+
+export const REMINDER_PLACEHOLDERS: Record<string, string> = {
+  paciente: 'Nome do paciente',
+  procedimento: 'Procedimento',
+  parcela: 'Ex: Parcela 2 de 6 · Boleto',
+  valor: 'Valor a pagar, com multa e juros se em atraso',
+  vencimento: 'Data de vencimento',
+  dias: 'Dias até o vencimento ou de atraso',
+};
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderKind, ReminderTemplate> = {
+  upcoming: {
+    kind: 'upcoming',
+    days: 3,
+    subject: 'Lembrete: parcela vence em {vencimento}',
+    body: 'Olá, {paciente}! Passando para lembrar que a {parcela} do seu tratamento de {procedimento}, '
+      + 'no valor de {valor}, vence em {vencimento}. Qualquer dúvida, estamos à disposição.',
+    active: true,
+  },
+  due_today: {
+    kind: 'due_today',
+    days: 0,
+    subject: 'Sua parcela vence hoje',
+    body: 'Olá, {paciente}! A {parcela} do seu tratamento de {procedimento}, no valor de {valor}, '
+      + 'vence hoje ({vencimento}). Se já realizou o pagamento, desconsidere esta mensagem.',
+    active: true,
+  },
+  overdue: {
+    kind: 'overdue',
+    days: 1,
+    subject: 'Parcela em aberto desde {vencimento}',
+    body: 'Olá, {paciente}! Não identificamos o pagamento da {parcela} do seu tratamento de {procedimento}, '
+      + 'vencida em {vencimento}. O valor atualizado é {valor}. Podemos ajudar com o pagamento?',
+    active: true,
+  },
+};
+
+// Substitui {campo} pelos valores da parcela; campos desconhecidos ficam como estão
+export const renderTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, field: string) => values[field] ?? placeholder);
+
+export const reminderValues = (installment: ReminderInstallment, today: string, rule: LateFeeRule) => {
+  const daysUntil = differenceInCalendarDays(parseISO(installment.next_payment_date), parseISO(today));
+
+  return {
+    paciente: installment.treatment.patient.name,
+    procedimento: installment.treatment.procedure,
+    parcela: installmentLabel(installment.installment_number, installment.leg),
+    valor: formatCents(amountDueCents(installment, today, rule).totalCents),
+    vencimento: format(parseISO(installment.next_payment_date), 'dd/MM/yyyy'),
+    dias: String(Math.abs(daysUntil)),
+  };
+};
+
+// Qual lembrete cabe à parcela hoje. As janelas cobrem os dias em que ninguém gerou
+// os lembretes; o índice único da fila impede repetir o mesmo lembrete
+export const reminderKindFor = (
+  dueDate: string,
+  today: string,
+  templates: Record<ReminderKind, ReminderTemplate>
+): ReminderKind | null => {
+  const daysUntil = differenceInCalendarDays(parseISO(dueDate), parseISO(today));
+
+  if (daysUntil === 0) return templates.due_today.active ? 'due_today' : null;
+  if (daysUntil > 0) {
+    return templates.upcoming.active && daysUntil <= templates.upcoming.days ? 'upcoming' : null;
+  }
+  return templates.overdue.active && -daysUntil >= Math.max(templates.overdue.days, 1) ? 'overdue' : null;
+};
+
+export const fetchReminderTemplates = async (): Promise<Record<ReminderKind, ReminderTemplate>> => {
+  const { data, error } = await supabase
+    .from('reminder_templates')
+    .select('kind, days, subject, body, active');
+
+  if (error) throw error;
+
+  return REMINDER_KINDS.reduce((templates, kind) => ({
+    ...templates,
+    [kind]: { ...DEFAULT_REMINDER_TEMPLATES[kind], ...(data || []).find(template => template.kind === kind) },
+  }), {} as Record<ReminderKind, ReminderTemplate>);
+};
+
+export const saveReminderTemplate = async (template: ReminderTemplate) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('reminder_templates')
+    .upsert(
+      { ...template, user_id: user.id, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,kind' }
+    );
+
+  if (error) throw error;
+};
+
+// Parcelas em aberto que pedem lembrete hoje, segundo os modelos ativos
+export const fetchReminderCandidates = async (
+  today: string,
+  templates: Record<ReminderKind, ReminderTemplate>
+): Promise<ReminderCandidate[]> => {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select('id, installment_number, installment_value, amount_paid, next_payment_date, leg:payment_legs(payment_method, installments, is_down_payment), treatment:treatments(procedure, patient:patients(id, name, email, whatsapp))')
+    .in('status', ['pending', 'overdue'])
+    .lte('next_payment_date', format(addDays(parseISO(today), templates.upcoming.days), 'yyyy-MM-dd'))
+    .order('next_payment_date')
+    .returns<ReminderInstallment[]>();
+
+  if (error) throw error;
+
+  return (data || []).flatMap(installment => {
+    const kind = reminderKindFor(installment.next_payment_date, today, templates);
+    return kind ? [{ installment, kind }] : [];
+  });
+};
+
+// Renderiza e enfileira um lembrete por canal com contato cadastrado.
+// Retorna quantos entraram na fila; os já enfileirados antes são ignorados
+export const queueReminders = async (
+  candidates: ReminderCandidate[],
+  templates: Record<ReminderKind, ReminderTemplate>,
+  today: string,
+  rule: LateFeeRule
+) => {
+  const rows = candidates.flatMap(({ installment, kind }) => {
+    const { patient } = installment.treatment;
+    const values = reminderValues(installment, today, rule);
+    const template = templates[kind];
+    const recipients: [NotificationChannel, string | null][] = [
+      ['email', patient.email],
+      ['whatsapp', patient.whatsapp],
+    ];
+
+    return recipients
+      .filter((entry): entry is [NotificationChannel, string] => Boolean(entry[1]))
+      .map(([channel, recipient]) => ({
+        appointment_id: installment.id,
+        patient_id: patient.id,
+        kind,
+        channel,
+        recipient,
+        subject: channel === 'email' ? renderTemplate(template.subject, values) : null,
+        body: renderTemplate(template.body, values),
+        due_date: installment.next_payment_date,
+      }));
+  });
+
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('queue_notifications', { p_notifications: rows });
+
+  if (error) throw error;
+  return data as number;
+};
+
+export const fetchNotifications = async (statuses: NotificationStatus[]): Promise<(ReminderNotification & {
+  patient: { name: string } | null;
+})[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*, patient:patients(name)')
+    .in('status', statuses)
+    .order('next_attempt_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Canal manual: a recepção envia pelo WhatsApp e confirma o envio
+export const whatsappMessageLink = (notification: Pick<ReminderNotification, 'recipient' | 'body'>) =>
+  `${whatsappLink(notification.recipient)}?text=${encodeURIComponent(notification.body)}`;
+
+export const markNotificationSent = async (notification: Pick<ReminderNotification, 'id' | 'attempts'>) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+      attempts: notification.attempts + 1,
+      last_error: null,
+    })
+    .eq('id', notification.id);
+
+  if (error) throw error;
+};
+
+export const retryNotification = async (id: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ status: 'queued', attempts: 0, next_attempt_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const cancelNotification = async (id: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ status: 'cancelled' })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Dispara a entrega dos e-mails na fila; a função também pode rodar agendada
+export const dispatchQueuedEmails = async (): Promise<{ sent: number; failed: number }> => {
+  const { data, error } = await supabase.functions.invoke('send-notifications', {
+    body: { channel: 'email' },
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import { fromCents } from './money';
+import { ScheduledLeg, planPayload } from './treatments';
+
+export interface Renegotiation {
+  id: string;
+  principal_amount: number;
+  charges_amount: number;
+  discount_amount: number;
+  total_amount: number;
+  note: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+interface RenegotiateInput {
+  treatmentId: string;
+  installmentIds: string[];
+  chargesCents: number;
+  discountCents: number;
+  legs: ScheduledLeg[];
+  note?: string;
+}
+
+// Parcelas que ainda podem ser pagas ou renegociadas
+export const isOpenInstallment = (installment: { status: string }) =>
+  installment.status === 'pending' || installment.status === 'overdue';
+
+// Valor do novo plano: saldo das parcelas + encargos incluídos - desconto
+export const renegotiatedTotalCents = (principalCents: number, chargesCents: number, discountCents: number) =>
+  principalCents + chargesCents - discountCents;
+
+// Cria o novo plano e marca as parcelas substituídas como renegociadas, mantendo seus pagamentos.
+// O banco recalcula o saldo das parcelas e grava tudo em uma única transação
+export const renegotiateInstallments = async ({
+  treatmentId,
+  installmentIds,
+  chargesCents,
+  discountCents,
+  legs,
+  note,
+}: RenegotiateInput) => {
+  const { data, error } = await supabase.rpc('renegotiate_installments', {
+    p_treatment_id: treatmentId,
+    p_installment_ids: installmentIds,
+    p_charges: fromCents(chargesCents),
+    p_discount: fromCents(discountCents),
+    p_legs: planPayload(legs),
+    p_note: note?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data as string;
+};
@@ -0,0 +1,49 @@
+import { supabase } from './supabase';
+
+export type ResourceKind = 'room' | 'equipment';
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  room: 'Sala',
+  equipment: 'Equipamento',
+};
+
+// Sala ou equipamento reservável na agenda
+export interface Resource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  active: boolean;
+}
+
+export const fetchResources = async (): Promise<Resource[]> => {
+  const { data, error } = await supabase
+    .from('resources')
+    .select('id, name, kind, active')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createResource = async (name: string, kind: ResourceKind) => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('resources')
+    .insert([{ name: name.trim(), kind, user_id: user.id }]);
+
+  if (error) throw error;
+};
+
+export const setResourceActive = async (id: string, active: boolean) => {
+  const { error } = await supabase
+    .from('resources')
+    .update({ active })
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,232 @@
+import { addDays, addMonths, format, getDate, getDaysInMonth, isWeekend, parseISO, subDays } from 'date-fns';
+import { supabase } from './supabase';
+
+export interface ScheduleRule {
+  // Quantos meses/dias depois do procedimento vence a primeira parcela
+  firstDueOffsetMonths: number;
+  firstDueOffsetDays: number;
+  // Dia inexistente no mês (ex: 31 em fevereiro): último dia do mês ou primeiro dia do mês seguinte
+  dayOfMonthOverflow: 'clamp' | 'next_month';
+  // Vencimento em fim de semana ou feriado: próximo dia útil, dia útil anterior ou manter
+  nonBusinessDayRoll: 'next' | 'previous' | 'none';
+}
+
+export type DayOfMonthOverflow = ScheduleRule['dayOfMonthOverflow'];
+export type NonBusinessDayRoll = ScheduleRule['nonBusinessDayRoll'];
+
+export const DAY_OF_MONTH_OVERFLOW_LABELS: Record<DayOfMonthOverflow, string> = {
+  clamp: 'Último dia do mês',
+  next_month: '1º dia do mês seguinte',
+};
+
+export const NON_BUSINESS_DAY_ROLL_LABELS: Record<NonBusinessDayRoll, string> = {
+  next: 'Próximo dia útil',
+  previous: 'Dia útil anterior',
+  none: 'Manter a data',
+};
+
+// Regras padrão; a clínica pode alterá-las em Configurações (clinic_settings.schedule_rules)
+export const DEFAULT_SCHEDULE_RULES: Record<string, ScheduleRule> = {
+  credit_card: {
+    firstDueOffsetMonths: 1,
+    firstDueOffsetDays: 0,
+    dayOfMonthOverflow: 'clamp',
+    nonBusinessDayRoll: 'next',
+  },
+  pix: {
+    firstDueOffsetMonths: 0,
+    firstDueOffsetDays: 0,
+    dayOfMonthOverflow: 'clamp',
+    nonBusinessDayRoll: 'none',
+  },
+  cash: {
+    firstDueOffsetMonths: 0,
+    firstDueOffsetDays: 0,
+    dayOfMonthOverflow: 'clamp',
+    nonBusinessDayRoll: 'none',
+  },
+  debit_card: {
+    firstDueOffsetMonths: 0,
+    firstDueOffsetDays: 0,
+    dayOfMonthOverflow: 'clamp',
+    nonBusinessDayRoll: 'none',
+  },
+  // Boleto vencido em dia não útil pode ser pago no próximo dia útil sem encargos
+  boleto: {
+    firstDueOffsetMonths: 1,
+    firstDueOffsetDays: 0,
+    dayOfMonthOverflow: 'clamp',
+    nonBusinessDayRoll: 'next',
+  },
+  // TED só é processada em dias úteis
+  bank_transfer: {
+    firstDueOffsetMonths: 0,
+    firstDueOffsetDays: 0,
+    dayOfMonthOverflow: 'clamp',
+    nonBusinessDayRoll: 'next',
+  },
+};
+
+// Completa as regras salvas com as padrão, campo a campo, para métodos novos ou regras antigas
+export const resolveScheduleRules = (saved: Record<string, Partial<ScheduleRule>> | null | undefined) =>
+  Object.keys(DEFAULT_SCHEDULE_RULES).reduce((rules, method) => ({
+    ...rules,
+    [method]: { ...DEFAULT_SCHEDULE_RULES[method], ...saved?.[method] },
+  }), {} as Record<string, ScheduleRule>);
+
+export interface MunicipalHoliday {
+  id: string;
+  name: string;
+  date: string;
+  recurring: boolean;
+}
+
+export interface HolidayCalendar {
+  isHoliday: (date: Date) => boolean;
+  holidayName: (date: Date) => string | null;
+}
+
+// Domingo de Páscoa pelo algoritmo anônimo gregoriano (Meeus/Jones/Butcher)
+const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const FIXED_NATIONAL_HOLIDAYS: Record<string, string> = {
+  '01-01': 'Confraternização Universal',
+  '04-21': 'Tiradentes',
+  '05-01': 'Dia do Trabalho',
+  '09-07': 'Independência do Brasil',
+  '10-12': 'Nossa Senhora Aparecida',
+  '11-02': 'Finados',
+  '11-15': 'Proclamação da República',
+  '11-20': 'Dia da Consciência Negra',
+  '12-25': 'Natal',
+};
+
+export const nationalHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+
+  Object.entries(FIXED_NATIONAL_HOLIDAYS).forEach(([monthDay, name]) => {
+    holidays.set(`${year}-${monthDay}`, name);
+  });
+
+  // Feriados móveis: bancos não abrem no Carnaval nem em Corpus Christi
+  const easter = easterSunday(year);
+  holidays.set(format(subDays(easter, 48), 'yyyy-MM-dd'), 'Carnaval');
+  holidays.set(format(subDays(easter, 47), 'yyyy-MM-dd'), 'Carnaval');
+  holidays.set(format(subDays(easter, 2), 'yyyy-MM-dd'), 'Sexta-feira Santa');
+  holidays.set(format(addDays(easter, 60), 'yyyy-MM-dd'), 'Corpus Christi');
+
+  return holidays;
+};
+
+export const createHolidayCalendar = (municipalHolidays: MunicipalHoliday[] = []): HolidayCalendar => {
+  const nationalByYear = new Map<number, Map<string, string>>();
+
+  const holidayName = (date: Date) => {
+    const year = date.getFullYear();
+    if (!nationalByYear.has(year)) {
+      nationalByYear.set(year, nationalHolidays(year));
+    }
+
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const national = nationalByYear.get(year)!.get(dateStr);
+    if (national) return national;
+
+    const municipal = municipalHolidays.find(holiday =>
+      holiday.recurring
+        ? holiday.date.slice(5) === dateStr.slice(5)
+        : holiday.date === dateStr
+    );
+    return municipal ? municipal.name : null;
+  };
+
+  return {
+    isHoliday: (date: Date) => holidayName(date) !== null,
+    holidayName,
+  };
+};
+
+export const fetchMunicipalHolidays = async (): Promise<MunicipalHoliday[]> => {
+  const { data, error } = await supabase
+    .from('holidays')
+    .select('id, name, date, recurring')
+    .order('date');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const isBusinessDay = (date: Date, calendar: HolidayCalendar) =>
+  !isWeekend(date) && !calendar.isHoliday(date);
+
+export const rollToBusinessDay = (date: Date, direction: 'next' | 'previous', calendar: HolidayCalendar): Date => {
+  let current = date;
+  while (!isBusinessDay(current, calendar)) {
+    current = direction === 'next' ? addDays(current, 1) : subDays(current, 1);
+  }
+  return current;
+};
+
+export const addBusinessDays = (date: Date, days: number, calendar: HolidayCalendar): Date => {
+  let current = date;
+  let remaining = days;
+  while (remaining > 0) {
+    current = addDays(current, 1);
+    if (isBusinessDay(current, calendar)) {
+      remaining--;
+    }
+  }
+  return current;
+};
+
+const dueDateForMonth = (baseDate: Date, monthsAhead: number, rule: ScheduleRule): Date => {
+  const target = addMonths(new Date(baseDate.getFullYear(), baseDate.getMonth(), 1), monthsAhead);
+  const day = getDate(baseDate);
+  const daysInTargetMonth = getDaysInMonth(target);
+
+  if (day <= daysInTargetMonth) {
+    return new Date(target.getFullYear(), target.getMonth(), day);
+  }
+
+  return rule.dayOfMonthOverflow === 'clamp'
+    ? new Date(target.getFullYear(), target.getMonth(), daysInTargetMonth)
+    : new Date(target.getFullYear(), target.getMonth() + 1, 1);
+};
+
+export const calculateInstallmentDates = (
+  procedureDateStr: string,
+  numberOfInstallments: number,
+  rule: ScheduleRule,
+  calendar: HolidayCalendar
+): string[] => {
+  const dates: string[] = [];
+  // O dia de referência das parcelas é o procedimento deslocado pelo offset de dias
+  const baseDate = addDays(parseISO(procedureDateStr), rule.firstDueOffsetDays);
+
+  for (let i = 0; i < Math.max(numberOfInstallments, 1); i++) {
+    let dueDate = dueDateForMonth(baseDate, rule.firstDueOffsetMonths + i, rule);
+
+    if (rule.nonBusinessDayRoll !== 'none') {
+      dueDate = rollToBusinessDay(dueDate, rule.nonBusinessDayRoll, calendar);
+    }
+
+    dates.push(format(dueDate, 'yyyy-MM-dd'));
+  }
+
+  return dates;
+};
@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+import { RemainderPlacement } from './money';
+import { LateFeeRule } from './lateFees';
+import { DEFAULT_SCHEDULE_RULES, ScheduleRule, resolveScheduleRules } from './schedule';
+
+export interface ClinicSettings extends LateFeeRule {
+  installment_remainder: RemainderPlacement;
+  // Regras de vencimento por forma de pagamento
+  schedule_rules: Record<string, ScheduleRule>;
+}
+
+export const DEFAULT_CLINIC_SETTINGS: ClinicSettings = {
+  installment_remainder: 'first',
+  late_fine_percent: 2,
+  late_interest_percent: 1,
+  schedule_rules: DEFAULT_SCHEDULE_RULES,
+};
+
+export const fetchClinicSettings = async (): Promise<ClinicSettings> => {
+  const { data, error } = await supabase
+    .from('clinic_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_CLINIC_SETTINGS, ...data, schedule_rules: resolveScheduleRules(data?.schedule_rules) };
+};
+
+export const saveClinicSettings = async (userId: string, settings: Partial<ClinicSettings>) => {
+  const { error } = await supabase
+    .from('clinic_settings')
+    .upsert({ ...settings, user_id: userId, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+};
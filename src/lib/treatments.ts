@@ -0,0 +1,338 @@
+import { supabase } from './supabase';
+import { RemainderPlacement, fromCents, splitCents, toCents } from './money';
+import { allowsInstallments, paymentMethodConfig, paymentMethodLabel } from './paymentMethods';
+import { format, parseISO } from 'date-fns';
+import { DEFAULT_SCHEDULE_RULES, HolidayCalendar, ScheduleRule, addBusinessDays, calculateInstallmentDates } from './schedule';
+import { CardFeeRule, calculateReceivables, findCardFeeRule, hasAcquirerFees } from './fees';
+
+// Estado de formulário de uma forma de pagamento do plano
+export interface PaymentLegForm {
+  payment_method: string;
+  amount: string;
+  installments: string;
+  first_due_date: string;
+  card_brand: string;
+}
+
+// Forma de pagamento já resolvida, com as datas e valores (em centavos) de cada parcela
+export interface ScheduledLeg {
+  payment_method: string;
+  card_brand: string | null;
+  amountCents: number;
+  installments: number;
+  first_due_date: string | null;
+  is_down_payment: boolean;
+  dates: string[];
+  amounts: number[];
+  // Valor líquido (após taxas da maquininha) e data prevista de crédito de cada parcela
+  netAmounts: number[];
+  settlementDates: string[];
+}
+
+type ResolvedLeg = Omit<ScheduledLeg, 'dates' | 'amounts' | 'netAmounts' | 'settlementDates'>;
+
+interface PlanLegsInput {
+  totalCents: number;
+  downPaymentCents: number;
+  downPaymentMethod: string;
+  legs: PaymentLegForm[];
+  procedureDate: string;
+  calendar: HolidayCalendar;
+  remainderTo: RemainderPlacement;
+  feeRules: CardFeeRule[];
+  scheduleRules: Record<string, ScheduleRule>;
+}
+
+export const EMPTY_PAYMENT_LEG: PaymentLegForm = {
+  payment_method: 'credit_card',
+  amount: '',
+  installments: '1',
+  first_due_date: '',
+  card_brand: '',
+};
+
+// A última forma de pagamento fica com o que as outras (e a entrada) não cobrem
+export const remainingLegCents = (totalCents: number, downPaymentCents: number, legs: PaymentLegForm[]) =>
+  totalCents - downPaymentCents - legs.slice(0, -1).reduce((sum, leg) => sum + toCents(leg.amount), 0);
+
+const scheduleLeg = (
+  leg: ResolvedLeg,
+  procedureDate: string,
+  calendar: HolidayCalendar,
+  remainderTo: RemainderPlacement,
+  feeRules: CardFeeRule[],
+  scheduleRules: Record<string, ScheduleRule>
+): ScheduledLeg => {
+  const rule = scheduleRules[leg.payment_method] || DEFAULT_SCHEDULE_RULES[leg.payment_method];
+  let dates: string[];
+
+  if (leg.is_down_payment) {
+    dates = [procedureDate];
+  } else if (leg.first_due_date) {
+    // Com 1º vencimento informado, as parcelas seguem mês a mês a partir dele
+    dates = calculateInstallmentDates(leg.first_due_date, leg.installments, { ...rule, firstDueOffsetMonths: 0, firstDueOffsetDays: 0 }, calendar);
+  } else {
+    dates = calculateInstallmentDates(procedureDate, leg.installments, rule, calendar);
+  }
+
+  const amounts = leg.is_down_payment ? [leg.amountCents] : splitCents(leg.amountCents, dates.length, remainderTo);
+  const feeRule = hasAcquirerFees(leg.payment_method)
+    ? findCardFeeRule(feeRules, leg.payment_method, leg.card_brand, leg.installments)
+    : null;
+
+  return {
+    ...leg,
+    dates,
+    amounts,
+    ...calculateReceivables(amounts, dates, procedureDate, leg.payment_method, feeRule, calendar),
+  };
+};
+
+export const planLegs = ({
+  totalCents,
+  downPaymentCents,
+  downPaymentMethod,
+  legs,
+  procedureDate,
+  calendar,
+  remainderTo,
+  feeRules,
+  scheduleRules,
+}: PlanLegsInput): ScheduledLeg[] => {
+  const resolved: ResolvedLeg[] = [];
+
+  if (downPaymentCents > 0) {
+    resolved.push({
+      payment_method: downPaymentMethod,
+      card_brand: null,
+      amountCents: downPaymentCents,
+      installments: 1,
+      first_due_date: null,
+      is_down_payment: true,
+    });
+  }
+
+  legs.forEach((leg, index) => {
+    const isLast = index === legs.length - 1;
+    resolved.push({
+      payment_method: leg.payment_method,
+      card_brand: hasAcquirerFees(leg.payment_method) ? leg.card_brand || null : null,
+      amountCents: isLast ? remainingLegCents(totalCents, downPaymentCents, legs) : toCents(leg.amount),
+      installments: allowsInstallments(leg.payment_method) ? Math.max(parseInt(leg.installments) || 1, 1) : 1,
+      first_due_date: leg.first_due_date || null,
+      is_down_payment: false,
+    });
+  });
+
+  return resolved.map(leg => scheduleLeg(leg, procedureDate, calendar, remainderTo, feeRules, scheduleRules));
+};
+
+// Mensagem de erro para exibir ao usuário, ou null se o plano fecha com o total
+export const validatePlan = (legs: ScheduledLeg[], totalCents: number): string | null => {
+  if (totalCents <= 0) return 'Informe o valor total do procedimento.';
+  if (legs.some(leg => leg.amountCents <= 0)) {
+    return 'Cada forma de pagamento deve ter um valor maior que zero, e a entrada deve ser menor que o total.';
+  }
+  const missingDueDate = legs.find(leg =>
+    !leg.is_down_payment && paymentMethodConfig(leg.payment_method).requiresDueDate && !leg.first_due_date
+  );
+  if (missingDueDate) {
+    return `Informe o 1º vencimento do pagamento em ${paymentMethodLabel(missingDueDate.payment_method)}.`;
+  }
+  const planned = legs.reduce((sum, leg) => sum + leg.amountCents, 0);
+  if (planned !== totalCents) return 'A soma das formas de pagamento não fecha com o valor total.';
+  return null;
+};
+
+// Parcela com pagamento registrado, mesmo que estornado: é mantida como está quando o plano
+// é editado, para não apagar os pagamentos e estornos dela
+export const isSettledInstallment = (installment: { status: string; amount_paid: number; payments: unknown[] }) =>
+  installment.status === 'paid' || Number(installment.amount_paid) > 0 || installment.payments.length > 0;
+
+// Formato de `legs` esperado pelas funções de plano do banco
+export const planPayload = (legs: ScheduledLeg[]) =>
+  legs.map(leg => ({
+    payment_method: leg.payment_method,
+    card_brand: leg.card_brand,
+    amount: fromCents(leg.amountCents),
+    first_due_date: leg.first_due_date,
+    is_down_payment: leg.is_down_payment,
+    initial_status: leg.is_down_payment ? 'paid' : paymentMethodConfig(leg.payment_method).initialStatus,
+    installments: leg.dates.map((date, index) => ({
+      due_date: date,
+      amount: fromCents(leg.amounts[index]),
+      net_amount: fromCents(leg.netAmounts[index]),
+      settlement_date: leg.settlementDates[index],
+    })),
+  }));
+
+interface CreatePlanInput {
+  patientId: string;
+  procedure: string;
+  procedureDate: string;
+  totalCents: number;
+  legs: ScheduledLeg[];
+  professionalId?: string | null;
+  // Pacote de sessões, quando o tratamento é vendido assim
+  sessionsPurchased?: number | null;
+  packageValidUntil?: string | null;
+  // Agendamento da agenda a partir do qual o plano foi criado
+  bookingId?: string | null;
+}
+
+// Cria o tratamento, o pacote, as formas de pagamento e as parcelas em uma única transação,
+// vinculando o agendamento de origem
+export const createTreatmentPlan = async ({
+  patientId,
+  procedure,
+  procedureDate,
+  totalCents,
+  legs,
+  professionalId = null,
+  sessionsPurchased = null,
+  packageValidUntil = null,
+  bookingId = null,
+}: CreatePlanInput) => {
+  const { data, error } = await supabase.rpc('create_treatment_plan', {
+    p_patient_id: patientId,
+    p_procedure: procedure,
+    p_procedure_date: procedureDate,
+    p_total_value: fromCents(totalCents),
+    p_legs: planPayload(legs),
+    p_professional_id: professionalId,
+    p_sessions_purchased: sessionsPurchased,
+    p_package_valid_until: packageValidUntil,
+    p_booking_id: bookingId,
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+interface UpdatePlanInput {
+  treatmentId: string;
+  procedure: string;
+  totalCents: number;
+  // Novo plano para o saldo; parcelas com pagamento são mantidas pelo banco
+  legs: ScheduledLeg[];
+  professionalId: string | null;
+  // Nome e CPF (só dígitos) corrigidos no cadastro do paciente; sem eles o cadastro fica como está
+  patient?: { name: string; cpf: string } | null;
+  // Cadastro existente para onde o tratamento é movido
+  patientId?: string | null;
+}
+
+export const updateTreatmentPlan = async ({
+  treatmentId,
+  procedure,
+  totalCents,
+  legs,
+  professionalId,
+  patient = null,
+  patientId = null,
+}: UpdatePlanInput) => {
+  const { error } = await supabase.rpc('update_treatment_plan', {
+    p_treatment_id: treatmentId,
+    p_procedure: procedure,
+    p_total_value: fromCents(totalCents),
+    p_legs: planPayload(legs),
+    p_professional_id: professionalId,
+    p_patient_name: patient?.name.trim() || null,
+    p_patient_cpf: patient?.cpf || null,
+    p_patient_id: patientId,
+  });
+
+  if (error) throw error;
+};
+
+export const cancelTreatmentPlan = async (treatmentId: string) => {
+  const { error } = await supabase.rpc('cancel_treatment_plan', { p_treatment_id: treatmentId });
+
+  if (error) throw error;
+};
+
+// Mensagens de validação das funções do banco (RAISE EXCEPTION) são exibidas ao usuário
+export const planErrorMessage = (error: unknown, fallback: string) => {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  return code === 'P0001' && message ? message : fallback;
+};
+
+// Parcela em aberto que pode ser alterada individualmente
+export interface EditableInstallment {
+  id: string;
+  installment_value: number;
+  amount_paid: number;
+  net_value: number;
+  next_payment_date: string;
+  expected_settlement_date: string;
+}
+
+export interface InstallmentChange {
+  id: string;
+  installment_value: number;
+  net_value: number;
+  next_payment_date: string;
+  expected_settlement_date: string;
+}
+
+// Novo valor de uma parcela; a diferença é redistribuída entre as demais parcelas em aberto
+// da mesma forma de pagamento, para o total do plano continuar o mesmo
+export const rebalanceInstallments = (
+  others: EditableInstallment[],
+  editedCents: number,
+  newCents: number,
+  remainderTo: RemainderPlacement
+): number[] => {
+  if (others.length === 0) return [];
+  const othersCents = others.reduce((sum, installment) => sum + toCents(installment.installment_value), 0);
+  return splitCents(othersCents - (newCents - editedCents), others.length, remainderTo);
+};
+
+// Mantém o líquido proporcional ao bruto; sem antecipação, o crédito acompanha o novo vencimento
+export const installmentChange = (
+  installment: EditableInstallment,
+  valueCents: number,
+  dueDate: string,
+  paymentMethod: string,
+  calendar: HolidayCalendar
+): InstallmentChange => {
+  const grossCents = toCents(installment.installment_value);
+  const netCents = grossCents === 0
+    ? valueCents
+    : Math.round(valueCents * toCents(installment.net_value) / grossCents);
+  const anticipated = installment.expected_settlement_date < installment.next_payment_date;
+  const settlementDate = anticipated || dueDate === installment.next_payment_date
+    ? installment.expected_settlement_date
+    : format(addBusinessDays(parseISO(dueDate), paymentMethodConfig(paymentMethod).settlementBusinessDays, calendar), 'yyyy-MM-dd');
+
+  return {
+    id: installment.id,
+    installment_value: fromCents(valueCents),
+    net_value: fromCents(netCents),
+    next_payment_date: dueDate,
+    expected_settlement_date: settlementDate,
+  };
+};
+
+// Grava as parcelas alteradas de uma forma de pagamento em uma única transação; o banco
+// trava a forma de pagamento e confere se o total continua o mesmo
+export const updateInstallments = async (changes: InstallmentChange[]) => {
+  const { error } = await supabase.rpc('update_installments', {
+    p_installments: changes,
+  });
+
+  if (error) throw error;
+};
+
+export const legLabel = (leg: { payment_method: string; installments: number; is_down_payment: boolean }) =>
+  leg.is_down_payment
+    ? `Entrada · ${paymentMethodLabel(leg.payment_method)}`
+    : `${leg.installments}x ${paymentMethodLabel(leg.payment_method)}`;
+
+export const installmentLabel = (
+  installmentNumber: number,
+  leg: { payment_method: string; installments: number; is_down_payment: boolean }
+) =>
+  leg.is_down_payment
+    ? `Entrada · ${paymentMethodLabel(leg.payment_method)}`
+    : `Parcela ${installmentNumber} de ${leg.installments} · ${paymentMethodLabel(leg.payment_method)}`;
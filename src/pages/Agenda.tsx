@@ -0,0 +1,513 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import BookingDialog, { BookingDraft } from '../components/BookingDialog';
+import {
+  AGENDA_END_HOUR,
+  AGENDA_START_HOUR,
+  Booking,
+  SLOT_MINUTES,
+  bookingDurationMinutes,
+  bookingErrorMessage,
+  bookingUsesResource,
+  clinicDate,
+  clinicDateTime,
+  clinicMinutes,
+  clinicTime,
+  fetchBookings,
+  findConflicts,
+  moveBooking,
+} from '../lib/bookings';
+import { Professional, fetchProfessionals } from '../lib/professionals';
+import { RESOURCE_KIND_LABELS, Resource, fetchResources } from '../lib/resources';
+
+const timeZone = 'America/Sao_Paulo';
+
+type AgendaView = 'day' | 'resources' | 'week' | 'month';
+
+const VIEW_LABELS: Record<AgendaView, string> = {
+  day: 'Dia',
+  resources: 'Recursos',
+  week: 'Semana',
+  month: 'Mês',
+};
+
+// Altura em pixels de cada horário da grade
+const SLOT_HEIGHT = 32;
+const SLOTS_PER_DAY = (AGENDA_END_HOUR - AGENDA_START_HOUR) * 60 / SLOT_MINUTES;
+const MONTH_CELL_LIMIT = 3;
+
+// Coluna da grade de horários: um dia na semana, um profissional ou um recurso no dia.
+// professionalId undefined aceita qualquer profissional; null, só os sem profissional
+interface AgendaColumn {
+  key: string;
+  label: string;
+  date: string;
+  professionalId?: string | null;
+  resourceId?: string;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const visibleDays = (view: AgendaView, anchor: string) => {
+  const date = parseISO(anchor);
+  if (view === 'day' || view === 'resources') return [date];
+  if (view === 'week') {
+    const start = startOfWeek(date, { weekStartsOn: 1 });
+    return eachDayOfInterval({ start, end: addDays(start, 6) });
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(date), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(date), { weekStartsOn: 1 }),
+  });
+};
+
+// Distribui agendamentos sobrepostos da mesma coluna lado a lado
+const assignLanes = (bookings: Booking[]) => {
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+
+  [...bookings]
+    .sort((a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime())
+    .forEach(booking => {
+      const start = new Date(booking.starts_at).getTime();
+      const lane = laneEnds.findIndex(end => end <= start);
+      const index = lane === -1 ? laneEnds.length : lane;
+      laneEnds[index] = new Date(booking.ends_at).getTime();
+      lanes.set(booking.id, index);
+    });
+
+  return { lanes, count: Math.max(laneEnds.length, 1) };
+};
+
+const Agenda = () => {
+  const [view, setView] = useState<AgendaView>('week');
+  const [anchor, setAnchor] = useState(() => format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd'));
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [professionalFilter, setProfessionalFilter] = useState('');
+  const [resourceFilter, setResourceFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [draft, setDraft] = useState<BookingDraft | null>(null);
+
+  const days = visibleDays(view, anchor);
+
+  useEffect(() => {
+    Promise.all([fetchProfessionals(), fetchResources()])
+      .then(([professionalList, resourceList]) => {
+        setProfessionals(professionalList);
+        setResources(resourceList);
+      })
+      .catch(error => console.error('Error fetching agenda resources:', error));
+  }, []);
+
+  useEffect(() => {
+    loadBookings();
+  }, [view, anchor]);
+
+  const loadBookings = async () => {
+    setLoading(true);
+    try {
+      setBookings(await fetchBookings(
+        clinicDateTime(toDateString(days[0]), '00:00'),
+        clinicDateTime(toDateString(addDays(days[days.length - 1], 1)), '00:00')
+      ));
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      toast.error('Erro ao carregar agenda');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const navigatePeriod = (direction: 1 | -1) => {
+    const date = parseISO(anchor);
+    const next = view === 'day' || view === 'resources'
+      ? addDays(date, direction)
+      : view === 'week' ? addWeeks(date, direction) : addMonths(date, direction);
+    setAnchor(toDateString(next));
+  };
+
+  const periodTitle = () => {
+    const date = parseISO(anchor);
+    if (view === 'day' || view === 'resources') return format(date, "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR });
+    if (view === 'week') return `${format(days[0], 'dd/MM')} a ${format(days[6], 'dd/MM/yyyy')}`;
+    return format(date, "MMMM 'de' yyyy", { locale: ptBR });
+  };
+
+  const visibleBookings = bookings.filter(booking =>
+    (!professionalFilter || booking.professional_id === professionalFilter)
+    && (!resourceFilter || bookingUsesResource(booking, resourceFilter))
+  );
+  const conflictIds = new Set(bookings.filter(booking => findConflicts(booking, bookings).length > 0).map(b => b.id));
+
+  const professionalName = (id: string | null) => professionals.find(p => p.id === id)?.name;
+  const resourceNames = (booking: Booking) => resources
+    .filter(resource => bookingUsesResource(booking, resource.id))
+    .map(resource => resource.name);
+
+  const columns = (): AgendaColumn[] => {
+    if (view === 'week') {
+      return days.map(day => ({
+        key: toDateString(day),
+        label: format(day, 'EEE dd/MM', { locale: ptBR }),
+        date: toDateString(day),
+      }));
+    }
+
+    // Disponibilidade: uma coluna por sala ou equipamento ativo ou com horário marcado
+    if (view === 'resources') {
+      return resources
+        .filter(resource => resourceFilter
+          ? resource.id === resourceFilter
+          : resource.active || visibleBookings.some(booking => bookingUsesResource(booking, resource.id)))
+        .map(resource => ({
+          key: resource.id,
+          label: `${resource.name} (${RESOURCE_KIND_LABELS[resource.kind]})`,
+          date: anchor,
+          resourceId: resource.id,
+        }));
+    }
+
+    // No dia, uma coluna por profissional ativo ou com horário marcado
+    const ids = professionalFilter
+      ? [professionalFilter]
+      : professionals
+        .filter(p => p.active || visibleBookings.some(booking => booking.professional_id === p.id))
+        .map(p => p.id);
+    const dayColumns: AgendaColumn[] = ids.map(id => ({
+      key: id,
+      label: professionalName(id) || '',
+      date: anchor,
+      professionalId: id,
+    }));
+
+    if (!professionalFilter && (dayColumns.length === 0 || visibleBookings.some(booking => !booking.professional_id))) {
+      dayColumns.push({ key: 'none', label: 'Sem profissional', date: anchor, professionalId: null });
+    }
+    return dayColumns;
+  };
+
+  const columnBookings = (column: AgendaColumn) => visibleBookings.filter(booking =>
+    clinicDate(booking.starts_at) === column.date
+    && (column.professionalId === undefined || booking.professional_id === column.professionalId)
+    && (!column.resourceId || bookingUsesResource(booking, column.resourceId))
+  );
+
+  const openDraft = (date: string, minutes: number, professionalId?: string | null) => {
+    setSelectedBooking(null);
+    setDraft({
+      date,
+      time: minutesToTime(minutes),
+      professionalId: professionalId !== undefined ? professionalId : professionalFilter || null,
+    });
+  };
+
+  const handleDrop = async (e: React.DragEvent, date: string, minutes: number | null, professionalId?: string | null) => {
+    e.preventDefault();
+    const booking = bookings.find(b => b.id === e.dataTransfer.getData('text/plain'));
+    if (!booking) return;
+
+    // No mês só muda o dia; o horário é mantido
+    const startsAt = clinicDateTime(date, minutes === null ? clinicTime(booking.starts_at) : minutesToTime(minutes));
+    const moved = {
+      id: booking.id,
+      starts_at: startsAt,
+      ends_at: new Date(new Date(startsAt).getTime() + bookingDurationMinutes(booking) * 60000).toISOString(),
+      professional_id: professionalId === undefined ? booking.professional_id : professionalId,
+      room_id: booking.room_id,
+      equipment: booking.equipment,
+    };
+
+    if (new Date(moved.starts_at).getTime() === new Date(booking.starts_at).getTime()
+      && moved.professional_id === booking.professional_id) return;
+
+    const conflicts = findConflicts(moved, bookings);
+    if (conflicts.length > 0) {
+      toast.error(`Conflito com ${conflicts[0].patient_name} às ${clinicTime(conflicts[0].starts_at)}.`);
+      return;
+    }
+
+    try {
+      await moveBooking(booking.id, {
+        starts_at: moved.starts_at,
+        ends_at: moved.ends_at,
+        professional_id: moved.professional_id,
+      });
+      toast.success('Horário remarcado.');
+      await loadBookings();
+    } catch (error) {
+      console.error('Error moving booking:', error);
+      toast.error(bookingErrorMessage(error, 'Erro ao remarcar horário.'));
+    }
+  };
+
+  const bookingColor = (booking: Booking) => {
+    if (conflictIds.has(booking.id)) return 'bg-red-100 border-red-400 text-red-900';
+    if (booking.status === 'done') return 'bg-green-100 border-green-400 text-green-900';
+    return 'bg-[#f3ece0] border-[#c7a978] text-gray-900';
+  };
+
+  const renderTimeGrid = () => {
+    const gridColumns = columns();
+    const slots = Array.from({ length: SLOTS_PER_DAY }, (_, index) => AGENDA_START_HOUR * 60 + index * SLOT_MINUTES);
+
+    return (
+      <div className="overflow-x-auto">
+        <div className="flex min-w-max">
+          <div className="w-16 flex-shrink-0">
+            <div className="h-10" />
+            {slots.map(minutes => (
+              <div key={minutes} className="text-xs text-gray-500 pr-2 text-right" style={{ height: SLOT_HEIGHT }}>
+                {minutes % 60 === 0 ? minutesToTime(minutes) : ''}
+              </div>
+            ))}
+          </div>
+
+          {gridColumns.map(column => {
+            const items = columnBookings(column);
+            const { lanes, count } = assignLanes(items);
+
+            return (
+              <div key={column.key} className="flex-1 min-w-[140px] border-l">
+                <div className="h-10 flex items-center justify-center text-sm font-medium border-b capitalize">
+                  {column.label}
+                </div>
+                <div className="relative">
+                  {slots.map(minutes => (
+                    <div
+                      key={minutes}
+                      onClick={() => openDraft(column.date, minutes, column.professionalId)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleDrop(e, column.date, minutes, column.professionalId)}
+                      className={`cursor-pointer hover:bg-gray-50 ${minutes % 60 === 0 ? 'border-t border-gray-200' : 'border-t border-gray-100'}`}
+                      style={{ height: SLOT_HEIGHT }}
+                    />
+                  ))}
+                  {items.map(booking => {
+                    const top = (clinicMinutes(booking.starts_at) - AGENDA_START_HOUR * 60) / SLOT_MINUTES * SLOT_HEIGHT;
+                    const height = Math.max(bookingDurationMinutes(booking) / SLOT_MINUTES * SLOT_HEIGHT, SLOT_HEIGHT / 2);
+                    const width = 100 / count;
+
+                    return (
+                      <div
+                        key={booking.id}
+                        draggable
+                        onDragStart={(e) => e.dataTransfer.setData('text/plain', booking.id)}
+                        onClick={() => {
+                          setDraft(null);
+                          setSelectedBooking(booking);
+                        }}
+                        className={`absolute rounded border-l-4 px-1 text-xs overflow-hidden cursor-move ${bookingColor(booking)}`}
+                        style={{
+                          top: Math.max(top, 0),
+                          height,
+                          left: `${(lanes.get(booking.id) || 0) * width}%`,
+                          width: `${width}%`,
+                        }}
+                        title={conflictIds.has(booking.id) ? 'Conflito de horário' : undefined}
+                      >
+                        <p className="font-medium truncate">
+                          {clinicTime(booking.starts_at)} {booking.patient_name}
+                        </p>
+                        <p className="truncate">
+                          {[
+                            booking.procedure,
+                            view !== 'day' && professionalName(booking.professional_id),
+                            ...(view === 'resources' ? [] : resourceNames(booking)),
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {days.slice(0, 7).map(day => (
+        <div key={day.toISOString()} className="p-2 text-sm font-medium text-center border-r border-b capitalize">
+          {format(day, 'EEE', { locale: ptBR })}
+        </div>
+      ))}
+      {days.map(day => {
+        const date = toDateString(day);
+        const items = visibleBookings.filter(booking => clinicDate(booking.starts_at) === date);
+
+        return (
+          <div
+            key={date}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, date, null)}
+            className={`min-h-[110px] p-1 border-r border-b ${isSameMonth(day, parseISO(anchor)) ? '' : 'bg-gray-50'}`}
+          >
+            <button
+              onClick={() => {
+                setAnchor(date);
+                setView('day');
+              }}
+              className={`text-sm hover:underline ${isSameMonth(day, parseISO(anchor)) ? 'text-gray-900' : 'text-gray-400'}`}
+            >
+              {format(day, 'd')}
+            </button>
+            <div className="space-y-1">
+              {items.slice(0, MONTH_CELL_LIMIT).map(booking => (
+                <div
+                  key={booking.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', booking.id)}
+                  onClick={() => {
+                    setDraft(null);
+                    setSelectedBooking(booking);
+                  }}
+                  className={`rounded border-l-4 px-1 text-xs truncate cursor-move ${bookingColor(booking)}`}
+                >
+                  {clinicTime(booking.starts_at)} {booking.patient_name}
+                </div>
+              ))}
+              {items.length > MONTH_CELL_LIMIT && (
+                <button
+                  onClick={() => {
+                    setAnchor(date);
+                    setView('day');
+                  }}
+                  className="text-xs text-gray-600 hover:underline"
+                >
+                  + {items.length - MONTH_CELL_LIMIT} mais
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Agenda</h1>
+        <button
+          onClick={() => openDraft(anchor, 9 * 60)}
+          className="btn-primary flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Novo Horário
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col lg:flex-row lg:justify-between lg:items-center gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => navigatePeriod(-1)}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setAnchor(format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd'))}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Hoje
+            </button>
+            <button
+              onClick={() => navigatePeriod(1)}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <h2 className="text-lg font-semibold ml-2 capitalize">{periodTitle()}</h2>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={professionalFilter}
+              onChange={(e) => setProfessionalFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              <option value="">Todos os profissionais</option>
+              {professionals.map(professional => (
+                <option key={professional.id} value={professional.id}>{professional.name}</option>
+              ))}
+            </select>
+            <select
+              value={resourceFilter}
+              onChange={(e) => setResourceFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              <option value="">Todas as salas e equipamentos</option>
+              {resources.map(resource => (
+                <option key={resource.id} value={resource.id}>{resource.name}</option>
+              ))}
+            </select>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(Object.keys(VIEW_LABELS) as AgendaView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-2 text-sm ${view === option ? 'bg-[#c7a978] text-white' : 'hover:bg-gray-50'}`}
+                >
+                  {VIEW_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {conflictIds.size > 0 && (
+          <p className="mb-4 text-sm text-red-600">
+            Há horários em conflito de profissional, sala ou equipamento neste período (destacados em vermelho).
+          </p>
+        )}
+
+        {loading && bookings.length === 0 ? (
+          <div className="text-center py-4">Carregando...</div>
+        ) : view === 'month' ? renderMonth() : renderTimeGrid()}
+      </div>
+
+      <BookingDialog
+        isOpen={selectedBooking !== null || draft !== null}
+        onClose={() => {
+          setSelectedBooking(null);
+          setDraft(null);
+        }}
+        onSuccess={loadBookings}
+        booking={selectedBooking}
+        draft={draft}
+        professionals={professionals}
+        resources={resources}
+      />
+    </div>
+  );
+};
+
+export default Agenda;
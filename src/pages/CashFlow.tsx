@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { DollarSign, TrendingUp, TrendingDown, Plus, Calendar, Filter, Edit2, Trash2 } from 'lucide-react';
+import { DollarSign, TrendingUp, TrendingDown, Plus, Calendar, Filter, Edit2, Trash2, CreditCard } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, parseISO } from 'date-fns';
 import { utcToZonedTime } from 'date-fns-tz';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Title, Tooltip as ChartTooltip, Legend, ArcElement } from 'chart.js';
@@ -11,6 +11,7 @@ import RevenueModal from '../components/RevenueModal';
 import EditExpenseModal from '../components/EditExpenseModal';
 import EditRevenueModal from '../components/EditRevenueModal';
 import Modal from '../components/Modal';
+import { fromCents, sumCents, toCents } from '../lib/money';
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, ChartTooltip, Legend, ArcElement);
 
@@ -46,6 +47,8 @@ const CashFlow = () => {
   const [categories, setCategories] = useState<ExpenseCategory[]>([]);
   const [monthlyExpenses, setMonthlyExpenses] = useState(0);
   const [monthlyRevenues, setMonthlyRevenues] = useState(0);
+  const [receivablesGross, setReceivablesGross] = useState(0);
+  const [receivablesNet, setReceivablesNet] = useState(0);
   const [selectedMonth, setSelectedMonth] = useState(format(new Date(), 'yyyy-MM'));
   const [isExpenseModalOpen, setIsExpenseModalOpen] = useState(false);
   const [isRevenueModalOpen, setIsRevenueModalOpen] = useState(false);
@@ -111,6 +114,16 @@ const CashFlow = () => {
 
       if (revenuesError) throw revenuesError;
 
+      // Parcelas de pacientes com crédito previsto no mês (bruto x líquido das taxas)
+      const { data: receivablesData, error: receivablesError } = await supabase
+        .from('appointments')
+        .select('installment_value, net_value')
+        .neq('status', 'renegotiated')
+        .gte('expected_settlement_date', firstDayStr)
+        .lte('expected_settlement_date', lastDayStr);
+
+      if (receivablesError) throw receivablesError;
+
       // Process expenses data
       const processedExpenses = expensesData?.map(expense => ({
         ...expense,
@@ -126,6 +139,8 @@ const CashFlow = () => {
 
       setMonthlyExpenses(totalExpenses);
       setMonthlyRevenues(totalRevenues);
+      setReceivablesGross(fromCents(sumCents((receivablesData || []).map(item => item.installment_value))));
+      setReceivablesNet(fromCents(sumCents((receivablesData || []).map(item => item.net_value))));
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('Erro ao carregar dados');
@@ -313,7 +328,7 @@ const CashFlow = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center mb-4">
             <TrendingUp className="w-6 h-6 text-green-600 mr-2" />
@@ -339,6 +354,17 @@ const CashFlow = () => {
             {formatCurrency(monthlyRevenues - monthlyExpenses)}
           </p>
         </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-4">
+            <CreditCard className="w-6 h-6 icon-primary mr-2" />
+            <h2 className="text-xl font-semibold">Recebíveis de Pacientes</h2>
+          </div>
+          <p className="text-3xl font-bold">{formatCurrency(receivablesNet)}</p>
+          <p className="text-sm text-gray-600 mt-2">
+            Bruto: {formatCurrency(receivablesGross)} · Taxas: {formatCurrency(fromCents(toCents(receivablesGross) - toCents(receivablesNet)))}
+          </p>
+        </div>
       </div>
 
       {/* Charts */}
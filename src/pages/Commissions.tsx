@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Percent, Plus, Trash2, FileText } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import { formatCents } from '../lib/money';
+import { Professional, fetchProfessionals, setProfessionalExpenseCategory } from '../lib/professionals';
+import { Procedure, fetchProcedures } from '../lib/procedures';
+import {
+  COMMISSION_BASE_LABELS,
+  CommissionBase,
+  CommissionRule,
+  CommissionSummary,
+  createCommissionRule,
+  deleteCommissionRule,
+  fetchCommissionReport,
+  fetchCommissionRules,
+  fetchGeneratedCommissions,
+  generateCommissionExpense,
+} from '../lib/commissions';
+
+const timeZone = 'America/Sao_Paulo';
+
+interface ExpenseCategory {
+  id: string;
+  name: string;
+}
+
+const EMPTY_RULE_FORM = {
+  professional_id: '',
+  procedure_id: '',
+  percent: '',
+  base: 'gross' as CommissionBase,
+};
+
+const Commissions = () => {
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [ruleForm, setRuleForm] = useState(EMPTY_RULE_FORM);
+  const [savingRule, setSavingRule] = useState(false);
+  const [selectedMonth, setSelectedMonth] = useState(() => format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM'));
+  const [report, setReport] = useState<CommissionSummary[]>([]);
+  const [generated, setGenerated] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchRegistries();
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [selectedMonth, rules]);
+
+  const fetchRegistries = async () => {
+    try {
+      const [professionalList, catalog, ruleList, { data: categoryList, error }] = await Promise.all([
+        fetchProfessionals(),
+        fetchProcedures(),
+        fetchCommissionRules(),
+        supabase.from('expense_categories').select('id, name').order('name'),
+      ]);
+
+      if (error) throw error;
+
+      setProfessionals(professionalList);
+      setProcedures(catalog);
+      setRules(ruleList);
+      setCategories(categoryList || []);
+    } catch (error) {
+      console.error('Error fetching commission data:', error);
+      toast.error('Erro ao carregar comissões');
+    }
+  };
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const [summaries, generatedIds] = await Promise.all([
+        fetchCommissionReport(selectedMonth, rules),
+        fetchGeneratedCommissions(selectedMonth),
+      ]);
+      setReport(summaries);
+      setGenerated(generatedIds);
+    } catch (error) {
+      console.error('Error fetching commission report:', error);
+      toast.error('Erro ao calcular comissões');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRuleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setRuleForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const procedureId = ruleForm.procedure_id || null;
+    if (rules.some(rule => rule.professional_id === ruleForm.professional_id && rule.procedure_id === procedureId)) {
+      toast.error('Já existe uma regra para esse profissional e procedimento.');
+      return;
+    }
+
+    setSavingRule(true);
+    try {
+      await createCommissionRule({
+        professionalId: ruleForm.professional_id,
+        procedureId,
+        percent: parseFloat(ruleForm.percent) || 0,
+        base: ruleForm.base,
+      });
+      setRuleForm(prev => ({ ...EMPTY_RULE_FORM, professional_id: prev.professional_id }));
+      setRules(await fetchCommissionRules());
+      toast.success('Regra de comissão adicionada!');
+    } catch (error) {
+      console.error('Error adding commission rule:', error);
+      toast.error('Erro ao adicionar regra de comissão.');
+    } finally {
+      setSavingRule(false);
+    }
+  };
+
+  const handleDeleteRule = async (rule: CommissionRule) => {
+    try {
+      await deleteCommissionRule(rule.id);
+      setRules(await fetchCommissionRules());
+    } catch (error) {
+      console.error('Error deleting commission rule:', error);
+      toast.error('Erro ao excluir regra de comissão.');
+    }
+  };
+
+  const handleCategoryChange = async (professional: Professional, categoryId: string) => {
+    try {
+      await setProfessionalExpenseCategory(professional.id, categoryId || null);
+      setProfessionals(await fetchProfessionals());
+    } catch (error) {
+      console.error('Error updating professional:', error);
+      toast.error('Erro ao atualizar profissional.');
+    }
+  };
+
+  const handleGenerateExpense = async (summary: CommissionSummary) => {
+    const professional = professionals.find(p => p.id === summary.professionalId);
+    if (!professional) return;
+
+    const toastId = toast.loading('Lançando despesa...');
+    try {
+      await generateCommissionExpense({
+        professional,
+        month: selectedMonth,
+        commissionCents: summary.commissionCents,
+      });
+      toast.success('Despesa lançada no Controle de Caixa!', { id: toastId });
+      setGenerated(await fetchGeneratedCommissions(selectedMonth));
+    } catch (error) {
+      console.error('Error generating commission expense:', error);
+      const { code } = (error || {}) as { code?: string };
+      toast.error(
+        code === '23505' ? 'A comissão deste mês já foi lançada.' : 'Erro ao lançar despesa.',
+        { id: toastId }
+      );
+    }
+  };
+
+  const professionalName = (id: string) => professionals.find(p => p.id === id)?.name || 'Profissional removido';
+  const procedureName = (id: string | null) => id ? procedures.find(p => p.id === id)?.name : 'Todos os procedimentos';
+
+  return (
+    <div className="p-6">
+      <h1 className="text-3xl font-bold mb-8">Comissões</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center mb-4">
+          <Percent className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Regras de Comissão</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          A regra do procedimento tem prioridade sobre a regra geral do profissional. O valor líquido desconta as taxas da maquininha.
+          Profissionais e salas são cadastrados em Configurações.
+        </p>
+
+        <form onSubmit={handleAddRule} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Profissional
+            </label>
+            <select
+              name="professional_id"
+              value={ruleForm.professional_id}
+              onChange={handleRuleChange}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              <option value="">Selecione</option>
+              {professionals.filter(p => p.active).map(professional => (
+                <option key={professional.id} value={professional.id}>{professional.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Procedimento
+            </label>
+            <select
+              name="procedure_id"
+              value={ruleForm.procedure_id}
+              onChange={handleRuleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              <option value="">Todos os procedimentos</option>
+              {procedures.filter(p => p.active).map(procedure => (
+                <option key={procedure.id} value={procedure.id}>{procedure.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Comissão (%)
+            </label>
+            <input
+              type="number"
+              name="percent"
+              value={ruleForm.percent}
+              onChange={handleRuleChange}
+              min="0"
+              max="100"
+              step="0.01"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sobre
+            </label>
+            <select
+              name="base"
+              value={ruleForm.base}
+              onChange={handleRuleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              {(Object.keys(COMMISSION_BASE_LABELS) as CommissionBase[]).map(base => (
+                <option key={base} value={base}>{COMMISSION_BASE_LABELS[base]}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={savingRule}
+            className="btn-primary flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar
+          </button>
+        </form>
+
+        <div className="divide-y">
+          {professionals.filter(p => p.active || rules.some(rule => rule.professional_id === p.id)).map(professional => (
+            <div key={professional.id} className="py-3">
+              <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-2 mb-1">
+                <p className="font-medium">{professional.name}</p>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  Categoria no caixa
+                  <select
+                    value={professional.expense_category_id || ''}
+                    onChange={(e) => handleCategoryChange(professional, e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  >
+                    <option value="">Sem categoria</option>
+                    {categories.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {rules.filter(rule => rule.professional_id === professional.id).map(rule => (
+                <div key={rule.id} className="flex justify-between items-center text-sm text-gray-600">
+                  <span>
+                    {procedureName(rule.procedure_id)} · {Number(rule.percent).toLocaleString('pt-BR')}% do {COMMISSION_BASE_LABELS[rule.base].toLowerCase()}
+                  </span>
+                  <button
+                    onClick={() => handleDeleteRule(rule)}
+                    className="p-2 text-red-600 hover:text-red-900 hover:bg-red-50 rounded-full transition-colors"
+                    title="Excluir regra"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {!rules.some(rule => rule.professional_id === professional.id) && (
+                <p className="text-sm text-gray-500">Sem regra de comissão</p>
+              )}
+            </div>
+          ))}
+          {professionals.length === 0 && (
+            <p className="text-gray-500 text-center py-4">Nenhum profissional cadastrado</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-4">
+          <div className="flex items-center">
+            <FileText className="w-6 h-6 icon-primary mr-2" />
+            <h2 className="text-xl font-semibold">Relatório Mensal</h2>
+          </div>
+          <input
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+          />
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Calculado sobre os pagamentos recebidos no mês dos tratamentos de cada profissional. Multa, juros e estornos não entram.
+        </p>
+
+        {loading ? (
+          <div className="text-center py-4">Carregando...</div>
+        ) : report.length > 0 ? (
+          <div className="space-y-6">
+            {report.map(summary => (
+              <div key={summary.professionalId} className="border rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-2 mb-3">
+                  <div>
+                    <p className="font-semibold">{professionalName(summary.professionalId)}</p>
+                    <p className="text-sm text-gray-600">
+                      Recebido: {formatCents(summary.grossCents)} · Comissão: {formatCents(summary.commissionCents)}
+                    </p>
+                  </div>
+                  {generated.has(summary.professionalId) ? (
+                    <span className="text-sm text-green-700">Despesa lançada no caixa</span>
+                  ) : (
+                    <button
+                      onClick={() => handleGenerateExpense(summary)}
+                      disabled={summary.commissionCents === 0}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      Lançar no caixa
+                    </button>
+                  )}
+                </div>
+                <div className="divide-y text-sm">
+                  {summary.lines.map(line => (
+                    <div key={line.paymentId} className="flex justify-between py-2">
+                      <span>
+                        {format(parseISO(line.paidAt), 'dd/MM/yyyy')} · {line.patientName} · {line.procedure}
+                        {!line.rule && <span className="text-red-600"> · sem regra</span>}
+                      </span>
+                      <span className="text-right">
+                        {formatCents(line.rule?.base === 'net' ? line.netCents : line.grossCents)}
+                        {line.rule && ` × ${Number(line.rule.percent).toLocaleString('pt-BR')}%`}
+                        {' = '}{formatCents(line.commissionCents)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-4">Nenhum pagamento de tratamento com profissional neste mês</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Commissions;
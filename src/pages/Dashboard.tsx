@@ -1,29 +1,69 @@
-import React, { useEffect, useState } from 'react';
-import { Calendar, AlertCircle, CheckCircle, DollarSign } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Calendar, AlertCircle, CheckCircle, DollarSign, Phone, MessageCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { format, startOfMonth, endOfMonth, parseISO, subMonths } from 'date-fns';
 import { utcToZonedTime } from 'date-fns-tz';
 import { Chart as ChartJS, ArcElement, Tooltip as ChartTooltip, Legend } from 'chart.js';
 import { Pie } from 'react-chartjs-2';
 import toast from 'react-hot-toast';
+import { formatCpf, formatPhone, phoneLink, whatsappLink } from '../lib/patients';
+import { fromCents, sumCents, toCents } from '../lib/money';
+import { installmentLabel } from '../lib/treatments';
+import { paymentMethodConfig, paymentMethodLabel } from '../lib/paymentMethods';
+import { paymentChargesCents, paymentNetCents, remainingCents } from '../lib/payments';
+import { amountDueCents } from '../lib/lateFees';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import PaymentDialog from '../components/PaymentDialog';
+import ReversalDialog from '../components/ReversalDialog';
 
 ChartJS.register(ArcElement, ChartTooltip, Legend);
 
 const timeZone = 'America/Sao_Paulo';
 
+const appointmentWithTreatment = '*, leg:payment_legs(payment_method, installments, is_down_payment), treatment:treatments(id, patient_id, procedure, patient:patients(id, name, cpf, phone, whatsapp))';
+
 interface Appointment {
   id: string;
-  patient_name: string;
-  cpf: string;
-  procedure: string;
-  total_value: number;
-  installments: number;
+  leg: {
+    payment_method: string;
+    installments: number;
+    is_down_payment: boolean;
+  };
+  treatment: {
+    id: string;
+    patient_id: string;
+    procedure: string;
+    patient: {
+      id: string;
+      name: string;
+      cpf: string;
+      phone: string | null;
+      whatsapp: string | null;
+    };
+  };
   installment_value: number;
+  amount_paid: number;
+  net_value: number;
   next_payment_date: string;
+  expected_settlement_date: string;
   status: 'pending' | 'paid' | 'overdue';
+  overdue_since: string | null;
   installment_number: number;
 }
 
+// Recebimento do livro de pagamentos com a parcela e o tratamento
+interface ReceivedPayment {
+  id: string;
+  paid_at: string;
+  amount: number;
+  fine_amount: number;
+  interest_amount: number;
+  payment_method: string;
+  reversal: { id: string } | null;
+  appointment: Appointment;
+}
+
 interface MonthlyPayment {
   month: string;
   total: number;
@@ -39,15 +79,24 @@ const formatCurrency = (value: number) => {
 const Dashboard = () => {
   const [upcomingPayments, setUpcomingPayments] = useState<Appointment[]>([]);
   const [overduePayments, setOverduePayments] = useState<Appointment[]>([]);
-  const [monthlyPaidPayments, setMonthlyPaidPayments] = useState<Appointment[]>([]);
+  const [monthlyPaidPayments, setMonthlyPaidPayments] = useState<ReceivedPayment[]>([]);
   const [monthlyTotal, setMonthlyTotal] = useState(0);
   const [totalPaid, setTotalPaid] = useState(0);
+  const [totalPaidNet, setTotalPaidNet] = useState(0);
   const [monthlyPaymentsData, setMonthlyPaymentsData] = useState<MonthlyPayment[]>([]);
+  const [paymentToRegister, setPaymentToRegister] = useState<Appointment | null>(null);
+  const [paymentToReverse, setPaymentToReverse] = useState<ReceivedPayment | null>(null);
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
 
   useEffect(() => {
     fetchDashboardData();
+    fetchClinicSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching settings:', error));
   }, []);
 
+  const todayStr = format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd');
+
   const formatDateInTimezone = (dateString: string) => {
     try {
       const date = parseISO(dateString);
@@ -66,65 +115,72 @@ const Dashboard = () => {
     const lastDayOfMonth = endOfMonth(today);
     const firstDayStr = format(firstDayOfMonth, 'yyyy-MM-dd');
     const lastDayStr = format(lastDayOfMonth, 'yyyy-MM-dd');
-    const todayStr = format(today, 'yyyy-MM-dd');
 
     try {
       // Fetch upcoming payments
       const { data: upcoming } = await supabase
         .from('appointments')
-        .select('*')
+        .select(appointmentWithTreatment)
         .eq('status', 'pending')
-        .gte('next_payment_date', todayStr)
         .order('next_payment_date')
         .limit(5);
 
-      // Fetch overdue payments
+      // Fetch overdue payments (status maintained by the database)
       const { data: overdue } = await supabase
         .from('appointments')
-        .select('*')
-        .eq('status', 'pending')
-        .lt('next_payment_date', todayStr)
+        .select(appointmentWithTreatment)
+        .eq('status', 'overdue')
         .order('next_payment_date');
 
       // Fetch all payments for the current month (regardless of status)
       const { data: allMonthlyPayments } = await supabase
         .from('appointments')
         .select('*')
+        .neq('status', 'renegotiated')
         .gte('next_payment_date', firstDayStr)
         .lte('next_payment_date', lastDayStr)
         .order('next_payment_date');
 
-      // Fetch paid payments for the current month
+      // Fetch payments received in the current month, by their real paid date
       const { data: monthlyPaid } = await supabase
-        .from('appointments')
-        .select('*')
-        .eq('status', 'paid')
-        .gte('next_payment_date', firstDayStr)
-        .lte('next_payment_date', lastDayStr)
-        .order('next_payment_date');
+        .from('payments')
+        .select(`*, reversal:payment_reversals(id), appointment:appointments(${appointmentWithTreatment})`)
+        .gte('paid_at', firstDayStr)
+        .lte('paid_at', lastDayStr)
+        .order('paid_at');
+
+      // Estornos continuam na lista, mas não entram nos totais
+      const monthlyReceived = (monthlyPaid || []).filter(payment => !payment.reversal);
 
-      // Calculate monthly totals
-      const monthlyTotalValue = allMonthlyPayments?.reduce(
-        (acc, curr) => acc + Number(curr.installment_value),
-        0
-      ) || 0;
+      // Calculate monthly totals in cents so they match the contract values
+      const monthlyTotalValue = fromCents(
+        sumCents((allMonthlyPayments || []).map(payment => payment.installment_value))
+      );
 
-      const totalPaidValue = monthlyPaid?.reduce(
-        (acc, curr) => acc + Number(curr.installment_value),
-        0
-      ) || 0;
+      // Multa e juros recebidos entram no total junto com o principal
+      const totalPaidValue = fromCents(
+        monthlyReceived.reduce((sum, payment) => sum + toCents(payment.amount) + paymentChargesCents(payment), 0)
+      );
 
-      // Fetch last 6 months of paid payments for the chart
-      const sixMonthsAgo = format(subMonths(today, 5), 'yyyy-MM-dd');
+      // Líquido: o que de fato chega na conta depois das taxas da maquininha
+      const totalPaidNetValue = fromCents(
+        monthlyReceived.reduce((sum, payment) => sum + paymentNetCents(
+          payment.amount,
+          payment.appointment.installment_value,
+          payment.appointment.net_value
+        ) + paymentChargesCents(payment), 0)
+      );
+
+      // Fetch last 6 months of payments for the chart
+      const sixMonthsAgo = format(startOfMonth(subMonths(today, 5)), 'yyyy-MM-dd');
       const { data: lastSixMonthsPayments } = await supabase
-        .from('appointments')
-        .select('*')
-        .eq('status', 'paid')
-        .gte('next_payment_date', sixMonthsAgo)
-        .lte('next_payment_date', lastDayStr)
-        .order('next_payment_date');
+        .from('payments')
+        .select('paid_at, amount, fine_amount, interest_amount, reversal:payment_reversals(id)')
+        .gte('paid_at', sixMonthsAgo)
+        .lte('paid_at', lastDayStr)
+        .order('paid_at');
 
-      // Process monthly payments data for the pie chart
+      // Process monthly payments data for the pie chart (in cents)
       const monthlyData = new Map<string, number>();
       
       // Initialize with zero values for last 6 months
@@ -135,14 +191,14 @@ const Dashboard = () => {
       }
 
       // Add actual payment data
-      lastSixMonthsPayments?.forEach(payment => {
-        const date = parseISO(payment.next_payment_date);
+      lastSixMonthsPayments?.filter(payment => !payment.reversal).forEach(payment => {
+        const date = parseISO(payment.paid_at);
         const zonedDate = utcToZonedTime(date, timeZone);
         const monthKey = format(zonedDate, 'MMM/yyyy');
         if (monthlyData.has(monthKey)) {
           monthlyData.set(
             monthKey,
-            (monthlyData.get(monthKey) || 0) + Number(payment.installment_value)
+            (monthlyData.get(monthKey) || 0) + toCents(payment.amount) + paymentChargesCents(payment)
           );
         }
       });
@@ -150,7 +206,7 @@ const Dashboard = () => {
       const monthlyPaymentsArray = Array.from(monthlyData.entries())
         .map(([month, total]) => ({
           month,
-          total
+          total: fromCents(total)
         }));
 
       setMonthlyPaymentsData(monthlyPaymentsArray);
@@ -159,6 +215,7 @@ const Dashboard = () => {
       setMonthlyPaidPayments(monthlyPaid || []);
       setMonthlyTotal(monthlyTotalValue);
       setTotalPaid(totalPaidValue);
+      setTotalPaidNet(totalPaidNetValue);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
       toast.error('Erro ao carregar dados do dashboard');
@@ -204,49 +261,92 @@ const Dashboard = () => {
     },
   };
 
-  const PaymentCard = ({ payment, isOverdue = false }: { payment: Appointment, isOverdue?: boolean }) => (
-    <div className="bg-white rounded-lg shadow p-4 mb-4">
-      <div className="flex justify-between items-start">
-        <div>
-          <h3 className="font-semibold text-lg">{payment.patient_name}</h3>
-          <p className="text-sm text-gray-600">CPF: {payment.cpf}</p>
-          <p className="text-sm text-gray-600">{payment.procedure}</p>
-          <p className="text-sm text-gray-600">Parcela {payment.installment_number} de {payment.installments}</p>
-        </div>
-        <div className="text-right">
-          <p className="font-bold text-lg">
-            {formatCurrency(payment.installment_value)}
-          </p>
-          <p className="text-sm text-gray-600 mb-2">
-            Vencimento: {formatDateInTimezone(payment.next_payment_date)}
-          </p>
-          <button
-            onClick={async () => {
-              const toastId = toast.loading('Atualizando status...');
-              try {
-                const { error } = await supabase
-                  .from('appointments')
-                  .update({ status: 'paid' })
-                  .eq('id', payment.id);
-
-                if (error) throw error;
-                await fetchDashboardData();
-                toast.success('Status atualizado com sucesso!', { id: toastId });
-              } catch (error) {
-                console.error('Error updating payment status:', error);
-                toast.error('Erro ao atualizar status.', { id: toastId });
-              }
-            }}
-            className={`px-4 py-2 rounded-md text-white transition-colors ${
-              isOverdue ? 'bg-red-600 hover:bg-red-700' : 'btn-primary'
-            }`}
-          >
-            Finalizar
-          </button>
+  const PaymentCard = ({ payment, isOverdue = false }: { payment: Appointment, isOverdue?: boolean }) => {
+    const due = amountDueCents(payment, todayStr, settings);
+
+    return (
+      <div className="bg-white rounded-lg shadow p-4 mb-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <Link
+              to={`/patients/${payment.treatment.patient_id}`}
+              className="font-semibold text-lg hover:text-primary transition-colors"
+            >
+              {payment.treatment.patient.name}
+            </Link>
+            <p className="text-sm text-gray-600">CPF: {formatCpf(payment.treatment.patient.cpf)}</p>
+            <p className="text-sm text-gray-600">{payment.treatment.procedure}</p>
+            <p className="text-sm text-gray-600">{installmentLabel(payment.installment_number, payment.leg)}</p>
+            {(payment.treatment.patient.phone || payment.treatment.patient.whatsapp) && (
+              <div className="flex gap-4 mt-2 text-sm">
+                {payment.treatment.patient.phone && (
+                  <a
+                    href={phoneLink(payment.treatment.patient.phone)}
+                    className="flex items-center gap-1 text-gray-600 hover:text-primary"
+                    title="Ligar para o paciente"
+                  >
+                    <Phone className="w-4 h-4" />
+                    {formatPhone(payment.treatment.patient.phone)}
+                  </a>
+                )}
+                {payment.treatment.patient.whatsapp && (
+                  <a
+                    href={whatsappLink(payment.treatment.patient.whatsapp)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-green-700 hover:text-green-800"
+                    title="Conversar no WhatsApp"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    WhatsApp
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="text-right">
+            <p className="font-bold text-lg">
+              {formatCurrency(fromCents(remainingCents(payment)))}
+            </p>
+            {Number(payment.amount_paid) > 0 && (
+              <p className="text-xs text-gray-500">
+                Restante de {formatCurrency(Number(payment.installment_value))} · pago {formatCurrency(Number(payment.amount_paid))}
+              </p>
+            )}
+            {Number(payment.net_value) !== Number(payment.installment_value) && (
+              <p className="text-xs text-gray-500">
+                Líquido {formatCurrency(Number(payment.net_value))} em {formatDateInTimezone(payment.expected_settlement_date)}
+              </p>
+            )}
+            <p className={`text-sm text-gray-600 ${payment.overdue_since ? '' : 'mb-2'}`}>
+              Vencimento: {formatDateInTimezone(payment.next_payment_date)}
+            </p>
+            {payment.overdue_since && (
+              <p className="text-sm text-red-600 mb-2">
+                Em atraso desde {formatDateInTimezone(payment.overdue_since)}
+              </p>
+            )}
+            {due.totalCents !== due.principalCents && (
+              <p className="text-sm text-red-600 mb-2">
+                Valor atualizado: <span className="font-semibold">{formatCurrency(fromCents(due.totalCents))}</span>
+                <span className="block text-xs">
+                  Multa {formatCurrency(fromCents(due.fineCents))} · Juros {formatCurrency(fromCents(due.interestCents))} ({due.daysLate} dias)
+                </span>
+              </p>
+            )}
+            <button
+              onClick={() => setPaymentToRegister(payment)}
+              className={`px-4 py-2 rounded-md text-white transition-colors ${
+                isOverdue ? 'bg-red-600 hover:bg-red-700' : 'btn-primary'
+              }`}
+            >
+              {paymentMethodConfig(payment.leg.payment_method).confirmLabel}
+            </button>
+          </div>
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="p-6">
@@ -271,6 +371,10 @@ const Dashboard = () => {
           <p className="text-sm text-gray-600 mt-2">
             Total Recibos Emitidos/mês
           </p>
+          <p className="text-sm text-gray-600">
+            Líquido: <span className="font-medium text-gray-900">{formatCurrency(totalPaidNet)}</span>
+            {totalPaid !== totalPaidNet && ` · Taxas: ${formatCurrency(fromCents(toCents(totalPaid) - toCents(totalPaidNet)))}`}
+          </p>
         </div>
 
         <div className="bg-white rounded-lg shadow p-6">
@@ -308,16 +412,44 @@ const Dashboard = () => {
               {monthlyPaidPayments.map((payment) => (
                 <div key={payment.id} className="flex justify-between items-center border-b pb-4 last:border-b-0 last:pb-0">
                   <div>
-                    <p className="font-medium">{payment.patient_name}</p>
-                    <p className="text-sm text-gray-600">{payment.procedure}</p>
+                    <p className="font-medium">{payment.appointment.treatment.patient.name}</p>
+                    <p className="text-sm text-gray-600">{payment.appointment.treatment.procedure}</p>
                     <p className="text-sm text-gray-600">
-                      Parcela {payment.installment_number} de {payment.installments}
+                      {installmentLabel(payment.appointment.installment_number, payment.appointment.leg)}
                     </p>
                     <p className="text-sm text-gray-600">
-                      Pago em: {formatDateInTimezone(payment.next_payment_date)}
+                      Pago em: {formatDateInTimezone(payment.paid_at)} · {paymentMethodLabel(payment.payment_method)}
                     </p>
                   </div>
-                  <p className="font-bold">{formatCurrency(payment.installment_value)}</p>
+                  <div className="text-right">
+                    <p className={`font-bold ${payment.reversal ? 'line-through text-gray-400' : ''}`}>
+                      {formatCurrency(Number(payment.amount))}
+                    </p>
+                    {paymentChargesCents(payment) > 0 && (
+                      <p className="text-xs text-gray-500">
+                        + multa e juros {formatCurrency(fromCents(paymentChargesCents(payment)))}
+                      </p>
+                    )}
+                    {Number(payment.appointment.net_value) !== Number(payment.appointment.installment_value) && (
+                      <p className="text-xs text-gray-500">
+                        Líquido {formatCurrency(fromCents(paymentNetCents(
+                          payment.amount,
+                          payment.appointment.installment_value,
+                          payment.appointment.net_value
+                        )))}
+                      </p>
+                    )}
+                    {payment.reversal ? (
+                      <span className="text-xs text-red-600">Estornado</span>
+                    ) : (
+                      <button
+                        onClick={() => setPaymentToReverse(payment)}
+                        className="text-xs text-red-600 hover:underline"
+                      >
+                        Estornar
+                      </button>
+                    )}
+                  </div>
                 </div>
               ))}
               {monthlyPaidPayments.length === 0 && (
@@ -339,6 +471,21 @@ const Dashboard = () => {
           ))}
         </div>
       )}
+
+      <PaymentDialog
+        isOpen={paymentToRegister !== null}
+        onClose={() => setPaymentToRegister(null)}
+        onSuccess={fetchDashboardData}
+        installment={paymentToRegister}
+        lateFeeRule={settings}
+      />
+
+      <ReversalDialog
+        isOpen={paymentToReverse !== null}
+        onClose={() => setPaymentToReverse(null)}
+        onSuccess={fetchDashboardData}
+        payment={paymentToReverse}
+      />
     </div>
   );
 };
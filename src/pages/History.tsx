@@ -1,73 +1,159 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { Search, Calendar, DollarSign, History as HistoryIcon, Edit2, Trash2 } from 'lucide-react';
+import { Search, Edit2, Trash2, Handshake, UserCog, Phone, MessageCircle } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { utcToZonedTime } from 'date-fns-tz';
 import EditClientModal from '../components/EditClientModal';
+import EditPatientModal from '../components/EditPatientModal';
 import Modal from '../components/Modal';
 import toast from 'react-hot-toast';
+import { Patient, formatCpf, formatPhone, phoneLink, whatsappLink } from '../lib/patients';
+import { cancelTreatmentPlan, installmentLabel, legLabel, planErrorMessage } from '../lib/treatments';
+import { paymentMethodConfig, paymentMethodLabel } from '../lib/paymentMethods';
+import { Payment, paymentChargesCents, remainingCents } from '../lib/payments';
+import ReversalDialog from '../components/ReversalDialog';
+import { formatCents, toCents } from '../lib/money';
+import { amountDueCents } from '../lib/lateFees';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import PaymentDialog from '../components/PaymentDialog';
+import RenegotiationDialog from '../components/RenegotiationDialog';
+import InstallmentEditDialog from '../components/InstallmentEditDialog';
+import { Renegotiation, isOpenInstallment } from '../lib/renegotiations';
+import { TreatmentSession, deleteSession, packageStatus, packageWarning, sessionProfessionalName } from '../lib/packages';
+import SessionDialog from '../components/SessionDialog';
+import { NOTIFICATION_CHANNEL_LABELS, REMINDER_KIND_LABELS, ReminderNotification } from '../lib/reminders';
+import PackageDialog from '../components/PackageDialog';
 
 const timeZone = 'America/Sao_Paulo';
 
-interface Appointment {
+interface PaymentLeg {
   id: string;
-  patient_name: string;
-  cpf: string;
-  procedure: string;
-  total_value: number;
+  position: number;
+  payment_method: string;
+  amount: number;
   installments: number;
+  first_due_date: string | null;
+  is_down_payment: boolean;
+  card_brand: string | null;
+  renegotiation_id: string | null;
+}
+
+interface Appointment {
+  id: string;
+  leg_id: string;
   installment_value: number;
-  procedure_date: string;
+  net_value: number;
   next_payment_date: string;
-  status: 'pending' | 'paid' | 'overdue';
+  expected_settlement_date: string;
+  status: 'pending' | 'paid' | 'overdue' | 'renegotiated';
+  overdue_since: string | null;
+  renegotiation_id: string | null;
   installment_number: number;
-  payment_method: string;
+  amount_paid: number;
+  payments: Payment[];
+  notifications: Pick<ReminderNotification, 'id' | 'kind' | 'channel' | 'status' | 'sent_at'>[];
+}
+
+interface Treatment {
+  id: string;
+  patient_id: string;
+  patient: Patient;
+  procedure: string;
+  total_value: number;
+  procedure_date: string;
+  payment_legs: PaymentLeg[];
+  appointments: Appointment[];
+  renegotiations: Renegotiation[];
+  sessions_purchased: number | null;
+  package_valid_until: string | null;
+  sessions: TreatmentSession[];
+  professional_id: string | null;
+  professional: { name: string } | null;
 }
 
 const History = () => {
   const [search, setSearch] = useState('');
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [treatments, setTreatments] = useState<Treatment[]>([]);
   const [loading, setLoading] = useState(false);
-  const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [selectedTreatment, setSelectedTreatment] = useState<Treatment | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [paymentToReverse, setPaymentToReverse] = useState<Payment | null>(null);
+  const [installmentToPay, setInstallmentToPay] = useState<(Appointment & { leg: PaymentLeg }) | null>(null);
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+  const [treatmentToRenegotiate, setTreatmentToRenegotiate] = useState<Treatment | null>(null);
+  const [installmentToEdit, setInstallmentToEdit] = useState<{
+    installment: Appointment;
+    others: Appointment[];
+    paymentMethod: string;
+  } | null>(null);
+  const [treatmentForSession, setTreatmentForSession] = useState<Treatment | null>(null);
+  const [treatmentForPackage, setTreatmentForPackage] = useState<Treatment | null>(null);
+  const [patientToEdit, setPatientToEdit] = useState<Patient | null>(null);
+
+  useEffect(() => {
+    fetchClinicSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching settings:', error));
+  }, []);
 
   useEffect(() => {
     if (search.length >= 3) {
-      searchAppointments();
+      searchTreatments();
     } else if (search.length === 0) {
-      // Load all appointments when search is cleared
-      searchAppointments();
+      // Load all treatments when search is cleared
+      searchTreatments();
     }
   }, [search]);
 
-  const searchAppointments = async () => {
+  const searchTreatments = async () => {
     setLoading(true);
     try {
       let query = supabase
-        .from('appointments')
-        .select('*')
-        .order('next_payment_date', { ascending: false });
+        .from('treatments')
+        .select('*, patient:patients(*), payment_legs(*), appointments(*, payments(*, reversal:payment_reversals(*)), notifications(id, kind, channel, status, sent_at)), renegotiations(*), sessions:treatment_sessions(*, performer:professionals(name)), professional:professionals(name)')
+        .order('procedure_date', { ascending: false });
 
       if (search.length >= 3) {
         const searchTerm = search.replace(/\D/g, ''); // Remove non-digits for CPF search
-        query = query.or(`patient_name.ilike.%${search}%,cpf.eq.${searchTerm}`);
+        const patientFilter = searchTerm
+          ? `name.ilike.%${search}%,cpf.eq.${searchTerm}`
+          : `name.ilike.%${search}%`;
+
+        const { data: patients, error: patientsError } = await supabase
+          .from('patients')
+          .select('id')
+          .or(patientFilter);
+
+        if (patientsError) throw patientsError;
+
+        query = query.in('patient_id', (patients || []).map(patient => patient.id));
       }
 
       const { data, error } = await query;
 
       if (error) throw error;
 
-      // Sort appointments: completed first, then by date
-      const sortedAppointments = data?.sort((a, b) => {
-        if (a.status === 'paid' && b.status !== 'paid') return -1;
-        if (a.status !== 'paid' && b.status === 'paid') return 1;
-        return new Date(b.next_payment_date).getTime() - new Date(a.next_payment_date).getTime();
+      const sortedTreatments = (data || []).map((treatment: Treatment) => {
+        const legs = [...treatment.payment_legs].sort((a, b) => a.position - b.position);
+        const legPosition = new Map(legs.map(leg => [leg.id, leg.position]));
+
+        return {
+          ...treatment,
+          payment_legs: legs,
+          // Parcelas agrupadas pela ordem das formas de pagamento
+          appointments: [...treatment.appointments].sort(
+            (a, b) => (legPosition.get(a.leg_id) ?? 0) - (legPosition.get(b.leg_id) ?? 0)
+              || a.installment_number - b.installment_number
+          ),
+          sessions: [...treatment.sessions].sort((a, b) => a.performed_at.localeCompare(b.performed_at)),
+        };
       });
 
-      setAppointments(sortedAppointments || []);
+      setTreatments(sortedTreatments);
     } catch (error) {
-      console.error('Error fetching appointments:', error);
+      console.error('Error fetching treatments:', error);
       toast.error('Erro ao buscar agendamentos');
     } finally {
       setLoading(false);
@@ -75,26 +161,32 @@ const History = () => {
   };
 
   const handleDelete = async () => {
-    if (!selectedAppointment) return;
+    if (!selectedTreatment) return;
 
     const toastId = toast.loading('Excluindo agendamento...');
     try {
-      const { error } = await supabase
-        .from('appointments')
-        .delete()
-        .eq('procedure_date', selectedAppointment.procedure_date)
-        .eq('patient_name', selectedAppointment.patient_name);
-
-      if (error) throw error;
+      await cancelTreatmentPlan(selectedTreatment.id);
 
       toast.success('Agendamento excluído com sucesso!', { id: toastId });
-      await searchAppointments();
+      await searchTreatments();
     } catch (error) {
-      console.error('Error deleting appointment:', error);
-      toast.error('Erro ao excluir agendamento.', { id: toastId });
+      console.error('Error deleting treatment:', error);
+      toast.error(planErrorMessage(error, 'Erro ao excluir agendamento.'), { id: toastId });
     } finally {
       setIsDeleteModalOpen(false);
-      setSelectedAppointment(null);
+      setSelectedTreatment(null);
+    }
+  };
+
+  const handleDeleteSession = async (session: TreatmentSession) => {
+    const toastId = toast.loading('Excluindo sessão...');
+    try {
+      await deleteSession(session.id);
+      toast.success('Sessão excluída com sucesso!', { id: toastId });
+      await searchTreatments();
+    } catch (error) {
+      console.error('Error deleting session:', error);
+      toast.error('Erro ao excluir sessão.', { id: toastId });
     }
   };
 
@@ -106,21 +198,26 @@ const History = () => {
         return 'bg-yellow-100 text-yellow-800';
       case 'overdue':
         return 'bg-red-100 text-red-800';
+      case 'renegotiated':
+        return 'bg-blue-100 text-blue-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
+  const getStatusText = (payment: Appointment, method?: string) => {
+    switch (payment.status) {
       case 'paid':
         return 'Pago';
       case 'pending':
-        return 'Pendente';
+        if (Number(payment.amount_paid) > 0) return 'Pago parcialmente';
+        return method ? paymentMethodConfig(method).pendingLabel : 'Pendente';
       case 'overdue':
         return 'Atrasado';
+      case 'renegotiated':
+        return 'Renegociada';
       default:
-        return status;
+        return payment.status;
     }
   };
 
@@ -135,19 +232,7 @@ const History = () => {
     }
   };
 
-  const groupAppointmentsByProcedure = (appointments: Appointment[]) => {
-    const grouped = new Map<string, Appointment[]>();
-    
-    appointments.forEach(appointment => {
-      const key = `${appointment.patient_name}-${appointment.procedure_date}-${appointment.procedure}`;
-      if (!grouped.has(key)) {
-        grouped.set(key, []);
-      }
-      grouped.get(key)?.push(appointment);
-    });
-
-    return Array.from(grouped.values());
-  };
+  const todayStr = format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd');
 
   return (
     <div className="p-6">
@@ -168,27 +253,77 @@ const History = () => {
 
       {loading ? (
         <div className="text-center py-4">Carregando...</div>
-      ) : appointments.length > 0 ? (
+      ) : treatments.length > 0 ? (
         <div className="space-y-8">
-          {groupAppointmentsByProcedure(appointments).map((group, index) => {
-            const firstAppointment = group[0];
-            const hasPendingPayments = group.some(app => app.status === 'pending');
+          {treatments.map((treatment) => {
+            const hasPendingPayments = treatment.appointments.some(isOpenInstallment);
+            const originalLegs = treatment.payment_legs.filter(leg => !leg.renegotiation_id);
+            // Planos renegociados são alterados por nova renegociação, não pela edição completa
+            const isRenegotiated = treatment.renegotiations.length > 0;
+            const renegotiationDate = (id: string | null) => {
+              const renegotiation = treatment.renegotiations.find(r => r.id === id);
+              return renegotiation ? format(parseISO(renegotiation.created_at), 'dd/MM/yyyy') : '';
+            };
+            const sessionPackage = packageStatus(treatment, treatment.sessions, todayStr);
+            const warning = packageWarning(sessionPackage);
             
             return (
               <div
-                key={`${firstAppointment.id}-${index}`}
+                key={treatment.id}
                 className="bg-white rounded-lg shadow p-6"
               >
                 <div className="flex justify-between items-start mb-4">
                   <div>
-                    <h3 className="text-xl font-semibold">{firstAppointment.patient_name}</h3>
-                    <p className="text-gray-600">CPF: {firstAppointment.cpf}</p>
+                    <Link
+                      to={`/patients/${treatment.patient_id}`}
+                      className="text-xl font-semibold hover:text-primary transition-colors"
+                    >
+                      {treatment.patient.name}
+                    </Link>
+                    <p className="text-gray-600">CPF: {formatCpf(treatment.patient.cpf)}</p>
+                    {(treatment.patient.phone || treatment.patient.whatsapp) && (
+                      <div className="flex gap-4 text-sm text-gray-600">
+                        {treatment.patient.phone && (
+                          <a href={phoneLink(treatment.patient.phone)} className="flex items-center gap-1 hover:text-primary">
+                            <Phone className="w-4 h-4" />
+                            {formatPhone(treatment.patient.phone)}
+                          </a>
+                        )}
+                        {treatment.patient.whatsapp && (
+                          <a
+                            href={whatsappLink(treatment.patient.whatsapp)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 hover:text-primary"
+                          >
+                            <MessageCircle className="w-4 h-4" />
+                            WhatsApp
+                          </a>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex gap-2">
+                    <button
+                      onClick={() => setPatientToEdit(treatment.patient)}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                      title="Editar cadastro do paciente"
+                    >
+                      <UserCog className="w-5 h-5" />
+                    </button>
                     {hasPendingPayments && (
+                      <button
+                        onClick={() => setTreatmentToRenegotiate(treatment)}
+                        className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                        title="Renegociar parcelas"
+                      >
+                        <Handshake className="w-5 h-5" />
+                      </button>
+                    )}
+                    {hasPendingPayments && !isRenegotiated && (
                       <button
                         onClick={() => {
-                          setSelectedAppointment(firstAppointment);
+                          setSelectedTreatment(treatment);
                           setIsEditModalOpen(true);
                         }}
                         className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
@@ -198,7 +333,7 @@ const History = () => {
                     )}
                     <button
                       onClick={() => {
-                        setSelectedAppointment(firstAppointment);
+                        setSelectedTreatment(treatment);
                         setIsDeleteModalOpen(true);
                       }}
                       className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-full transition-colors"
@@ -210,59 +345,245 @@ const History = () => {
 
                 <div className="mb-4">
                   <p className="text-gray-600">Procedimento:</p>
-                  <p className="font-medium">{firstAppointment.procedure}</p>
+                  <p className="font-medium">{treatment.procedure}</p>
+                  {treatment.professional && (
+                    <p className="text-sm text-gray-600">Profissional: {treatment.professional.name}</p>
+                  )}
+                </div>
+
+                <div className="mb-4">
+                  <div className="flex justify-between items-center">
+                    <p className="text-gray-600">Sessões:</p>
+                    <button
+                      onClick={() => setTreatmentForPackage(treatment)}
+                      className="text-sm text-gray-600 hover:underline"
+                    >
+                      {sessionPackage ? 'Editar pacote' : 'Definir pacote'}
+                    </button>
+                  </div>
+                  {sessionPackage ? (
+                    <p className="font-medium">
+                      {sessionPackage.performed} de {sessionPackage.purchased} realizadas
+                      {' · '}{sessionPackage.remaining} {sessionPackage.remaining === 1 ? 'restante' : 'restantes'}
+                      {treatment.package_valid_until && (
+                        <span className="font-normal text-gray-600">
+                          {' · '}Validade: {formatDateInTimezone(treatment.package_valid_until)}
+                        </span>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="font-medium">
+                      {treatment.sessions.length} {treatment.sessions.length === 1 ? 'realizada' : 'realizadas'}
+                    </p>
+                  )}
+                  {warning && (
+                    <p className={`text-sm ${sessionPackage?.fullyUsed ? 'text-green-700' : 'text-red-600'}`}>
+                      {warning}
+                    </p>
+                  )}
+                  {treatment.sessions.map((session, index) => (
+                    <p key={session.id} className="text-sm text-gray-600">
+                      {index + 1}ª sessão em {formatDateInTimezone(session.performed_at)}
+                      {sessionProfessionalName(session) && ` · ${sessionProfessionalName(session)}`}
+                      {session.notes && ` · ${session.notes}`}
+                      <button
+                        onClick={() => handleDeleteSession(session)}
+                        className="ml-2 text-red-600 hover:underline"
+                      >
+                        Excluir
+                      </button>
+                    </p>
+                  ))}
+                  {!sessionPackage?.fullyUsed && (
+                    <button
+                      onClick={() => setTreatmentForSession(treatment)}
+                      className="mt-1 text-sm text-primary hover:underline"
+                    >
+                      Registrar sessão
+                    </button>
+                  )}
                 </div>
 
                 <div className="mb-4">
                   <p className="text-gray-600">Data do Procedimento:</p>
                   <p className="font-medium">
-                    {formatDateInTimezone(firstAppointment.procedure_date)}
+                    {formatDateInTimezone(treatment.procedure_date)}
                   </p>
                 </div>
 
                 <div className="mb-4">
                   <p className="text-gray-600">Valor Total:</p>
                   <p className="font-medium">
-                    {firstAppointment.total_value.toLocaleString('pt-BR', {
+                    {Number(treatment.total_value).toLocaleString('pt-BR', {
                       style: 'currency',
                       currency: 'BRL'
                     })}
                   </p>
+                  {originalLegs.length > 1 && (
+                    <p className="text-sm text-gray-600">
+                      {originalLegs.map(leg => `${legLabel(leg)} (${Number(leg.amount).toLocaleString('pt-BR', {
+                        style: 'currency',
+                        currency: 'BRL'
+                      })})`).join(' + ')}
+                    </p>
+                  )}
                 </div>
 
+                {treatment.renegotiations.map(renegotiation => (
+                  <div key={renegotiation.id} className="mb-4 p-3 bg-blue-50 rounded text-sm text-blue-900">
+                    <p className="font-medium">
+                      Renegociado em {format(parseISO(renegotiation.created_at), 'dd/MM/yyyy')}
+                      {renegotiation.created_by_email && ` por ${renegotiation.created_by_email}`}
+                    </p>
+                    <p>
+                      Saldo {formatCents(toCents(renegotiation.principal_amount))}
+                      {Number(renegotiation.charges_amount) > 0 && ` + encargos ${formatCents(toCents(renegotiation.charges_amount))}`}
+                      {Number(renegotiation.discount_amount) > 0 && ` - desconto ${formatCents(toCents(renegotiation.discount_amount))}`}
+                      {' = '}{formatCents(toCents(renegotiation.total_amount))}
+                      {' · '}{treatment.appointments.filter(app => app.renegotiation_id === renegotiation.id).length} parcela(s) substituída(s)
+                    </p>
+                    {renegotiation.note && <p className="text-blue-700">{renegotiation.note}</p>}
+                  </div>
+                ))}
+
                 <div className="border-t pt-4 mt-4">
                   <h4 className="font-semibold mb-3">Parcelas:</h4>
                   <div className="grid gap-4">
-                    {group.map((payment) => (
-                      <div
-                        key={payment.id}
-                        className="flex justify-between items-center p-3 bg-gray-50 rounded"
-                      >
-                        <div>
-                          <p className="font-medium">
-                            Parcela {payment.installment_number} de {payment.installments}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            Vencimento: {formatDateInTimezone(payment.next_payment_date)}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-bold">
-                            {payment.installment_value.toLocaleString('pt-BR', {
-                              style: 'currency',
-                              currency: 'BRL'
-                            })}
-                          </p>
-                          <span
-                            className={`inline-block px-2 py-1 rounded-full text-sm ${getStatusColor(
-                              payment.status
-                            )}`}
-                          >
-                            {getStatusText(payment.status)}
-                          </span>
+                    {treatment.appointments.map((payment) => {
+                      const leg = treatment.payment_legs.find(l => l.id === payment.leg_id);
+                      const due = payment.status === 'overdue' ? amountDueCents(payment, todayStr, settings) : null;
+
+                      return (
+                        <div
+                          key={payment.id}
+                          className="flex justify-between items-center p-3 bg-gray-50 rounded"
+                        >
+                          <div>
+                            <p className="font-medium">
+                              {leg && installmentLabel(payment.installment_number, leg)}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              Vencimento: {formatDateInTimezone(payment.next_payment_date)}
+                            </p>
+                            {leg?.renegotiation_id && (
+                              <p className="text-sm text-blue-700">
+                                Renegociação de {renegotiationDate(leg.renegotiation_id)}
+                              </p>
+                            )}
+                            {payment.status === 'renegotiated' && (
+                              <p className="text-sm text-blue-700">
+                                Substituída na renegociação de {renegotiationDate(payment.renegotiation_id)}
+                              </p>
+                            )}
+                            {payment.overdue_since && payment.status !== 'renegotiated' && (
+                              <p className="text-sm text-red-600">
+                                {payment.status === 'paid'
+                                  ? 'Pago com atraso'
+                                  : `Em atraso desde ${formatDateInTimezone(payment.overdue_since)}`}
+                              </p>
+                            )}
+                            {payment.notifications
+                              .filter(notification => notification.status === 'sent')
+                              .map(notification => (
+                                <p key={notification.id} className="text-sm text-gray-500">
+                                  Lembrete "{REMINDER_KIND_LABELS[notification.kind]}" enviado por{' '}
+                                  {NOTIFICATION_CHANNEL_LABELS[notification.channel]}
+                                  {notification.sent_at && ` em ${formatDateInTimezone(notification.sent_at)}`}
+                                </p>
+                              ))}
+                            {payment.payments.map(received => (
+                              <div
+                                key={received.id}
+                                className={`text-sm ${received.reversal ? 'text-gray-500' : 'text-green-700'}`}
+                              >
+                                <span className={received.reversal ? 'line-through' : ''}>
+                                  Pago em {formatDateInTimezone(received.paid_at)}
+                                  {' · '}{paymentMethodLabel(received.payment_method)}
+                                  {Number(received.amount) !== Number(payment.installment_value) && (
+                                    ` · ${Number(received.amount).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`
+                                  )}
+                                  {paymentChargesCents(received) > 0 && (
+                                    ` + multa ${formatCents(toCents(received.fine_amount))}`
+                                    + ` e juros ${formatCents(toCents(received.interest_amount))}`
+                                  )}
+                                </span>
+                                {received.registered_by_email && (
+                                  <span className="text-gray-500"> · por {received.registered_by_email}</span>
+                                )}
+                                {!received.reversal && (
+                                  <button
+                                    onClick={() => setPaymentToReverse(received)}
+                                    className="ml-2 text-red-600 hover:underline"
+                                  >
+                                    Estornar
+                                  </button>
+                                )}
+                                {received.note && (
+                                  <span className="block text-gray-500">{received.note}</span>
+                                )}
+                                {received.reversal && (
+                                  <span className="block text-red-700">
+                                    Estornado em {format(parseISO(received.reversal.created_at), 'dd/MM/yyyy')}
+                                    {received.reversal.reversed_by_email && ` por ${received.reversal.reversed_by_email}`}
+                                    : {received.reversal.reason}
+                                  </span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold">
+                              {Number(payment.installment_value).toLocaleString('pt-BR', {
+                                style: 'currency',
+                                currency: 'BRL'
+                              })}
+                            </p>
+                            <span
+                              className={`inline-block px-2 py-1 rounded-full text-sm ${getStatusColor(
+                                payment.status
+                              )}`}
+                            >
+                              {getStatusText(payment, leg?.payment_method)}
+                            </span>
+                            {isOpenInstallment(payment) && Number(payment.amount_paid) > 0 && (
+                              <p className="text-sm text-gray-600 mt-1">
+                                Restante: {formatCents(remainingCents(payment))}
+                              </p>
+                            )}
+                            {due && due.totalCents !== due.principalCents && (
+                              <p className="text-sm text-red-600 mt-1">
+                                Atualizado: {formatCents(due.totalCents)}
+                                <span className="block text-xs">
+                                  Multa {formatCents(due.fineCents)} · Juros {formatCents(due.interestCents)}
+                                </span>
+                              </p>
+                            )}
+                            {isOpenInstallment(payment) && leg && (
+                              <>
+                                <button
+                                  onClick={() => setInstallmentToPay({ ...payment, leg })}
+                                  className="block ml-auto mt-1 text-sm text-primary hover:underline"
+                                >
+                                  Registrar pagamento
+                                </button>
+                                <button
+                                  onClick={() => setInstallmentToEdit({
+                                    installment: payment,
+                                    others: treatment.appointments.filter(other =>
+                                      other.leg_id === payment.leg_id && other.id !== payment.id && isOpenInstallment(other)
+                                    ),
+                                    paymentMethod: leg.payment_method,
+                                  })}
+                                  className="block ml-auto mt-1 text-sm text-gray-600 hover:underline"
+                                >
+                                  Editar parcela
+                                </button>
+                              </>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               </div>
@@ -279,21 +600,75 @@ const History = () => {
         isOpen={isEditModalOpen}
         onClose={() => {
           setIsEditModalOpen(false);
-          setSelectedAppointment(null);
+          setSelectedTreatment(null);
         }}
-        client={selectedAppointment}
-        onUpdate={searchAppointments}
+        client={selectedTreatment}
+        onUpdate={searchTreatments}
+      />
+
+      <EditPatientModal
+        isOpen={patientToEdit !== null}
+        onClose={() => setPatientToEdit(null)}
+        patient={patientToEdit}
+        onSuccess={searchTreatments}
+      />
+
+      <PaymentDialog
+        isOpen={installmentToPay !== null}
+        onClose={() => setInstallmentToPay(null)}
+        onSuccess={searchTreatments}
+        installment={installmentToPay}
+        lateFeeRule={settings}
+      />
+
+      <InstallmentEditDialog
+        isOpen={installmentToEdit !== null}
+        onClose={() => setInstallmentToEdit(null)}
+        onSuccess={searchTreatments}
+        installment={installmentToEdit?.installment || null}
+        others={installmentToEdit?.others || []}
+        paymentMethod={installmentToEdit?.paymentMethod || ''}
+      />
+
+      <RenegotiationDialog
+        isOpen={treatmentToRenegotiate !== null}
+        onClose={() => setTreatmentToRenegotiate(null)}
+        onSuccess={searchTreatments}
+        treatment={treatmentToRenegotiate}
+      />
+
+      <SessionDialog
+        isOpen={treatmentForSession !== null}
+        onClose={() => setTreatmentForSession(null)}
+        onSuccess={searchTreatments}
+        treatment={treatmentForSession}
+        sessionNumber={(treatmentForSession?.sessions.length || 0) + 1}
+      />
+
+      <PackageDialog
+        isOpen={treatmentForPackage !== null}
+        onClose={() => setTreatmentForPackage(null)}
+        onSuccess={searchTreatments}
+        treatment={treatmentForPackage}
+        sessionsPerformed={treatmentForPackage?.sessions.length || 0}
+      />
+
+      <ReversalDialog
+        isOpen={paymentToReverse !== null}
+        onClose={() => setPaymentToReverse(null)}
+        onSuccess={searchTreatments}
+        payment={paymentToReverse}
       />
 
       <Modal
         isOpen={isDeleteModalOpen}
         onClose={() => {
           setIsDeleteModalOpen(false);
-          setSelectedAppointment(null);
+          setSelectedTreatment(null);
         }}
         onConfirm={handleDelete}
         title="Excluir Agendamento"
-        message="Tem certeza que deseja excluir este agendamento? Esta ação não pode ser desfeita."
+        message="Tem certeza que deseja excluir este agendamento? Esta ação não pode ser desfeita. Agendamentos com pagamentos registrados não podem ser excluídos."
       />
     </div>
   );
@@ -1,33 +1,127 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { Calendar, DollarSign, User, FileText, Hash, ArrowLeft, CreditCard } from 'lucide-react';
-import { addDays, format, parseISO, isWeekend } from 'date-fns';
-import { addMonths, getDate, getDaysInMonth, startOfMonth } from 'date-fns';
-import { zonedTimeToUtc, utcToZonedTime } from 'date-fns-tz';
+import { Calendar, DollarSign, User, FileText, Hash, ArrowLeft, CreditCard, Wallet, Layers, CalendarClock, UserCheck, Phone, ChevronDown, ChevronUp } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { zonedTimeToUtc } from 'date-fns-tz';
 import { Tooltip } from '../components/Tooltip';
+import PaymentLegsEditor from '../components/PaymentLegsEditor';
+import PatientMatchNotice from '../components/PatientMatchNotice';
+import PatientContactFields from '../components/PatientContactFields';
+import {
+  EMPTY_PATIENT_CONTACT,
+  PatientContactForm,
+  PatientSummary,
+  fetchPatientSummaries,
+  fillPatientContact,
+  findOrCreatePatient,
+  findPatientMatches,
+  isValidCpf,
+  normalizeCpf,
+  patientErrorMessage,
+  validatePatientContact,
+} from '../lib/patients';
+import { formatCents, toCents } from '../lib/money';
+import { DOWN_PAYMENT_METHODS, paymentMethodLabel } from '../lib/paymentMethods';
+import {
+  EMPTY_PAYMENT_LEG,
+  PaymentLegForm,
+  createTreatmentPlan,
+  legLabel,
+  planErrorMessage,
+  planLegs,
+  validatePlan,
+} from '../lib/treatments';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import { CardFeeRule, fetchCardFeeRules } from '../lib/fees';
+import { HolidayCalendar, createHolidayCalendar, fetchMunicipalHolidays } from '../lib/schedule';
+import { Procedure, fetchProcedures, findProcedureByName } from '../lib/procedures';
+import { Professional, fetchProfessionals } from '../lib/professionals';
 import InputMask from 'react-input-mask';
 import toast from 'react-hot-toast';
 
 const timeZone = 'America/Sao_Paulo';
 
+// Horário da agenda que está sendo convertido em plano de pagamento
+interface BookingPrefill {
+  id: string;
+  patientName: string;
+  cpf: string;
+  procedure: string;
+  procedureDate: string;
+  professionalId: string | null;
+}
+
 const NewAppointment = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const booking = (location.state as { booking?: BookingPrefill } | null)?.booking || null;
   const [formData, setFormData] = useState({
-    patient_name: '',
-    cpf: '',
-    procedure: '',
+    patient_name: booking?.patientName || '',
+    cpf: booking?.cpf || '',
+    procedure: booking?.procedure || '',
+    professional_id: booking?.professionalId || '',
     total_value: '',
-    installments: '1',
-    procedure_date: '',
-    payment_method: 'credit_card',
+    procedure_date: booking?.procedureDate || '',
+    down_payment_value: '',
+    down_payment_method: 'pix',
+    sessions_purchased: '',
+    package_valid_until: '',
   });
+  const [legs, setLegs] = useState<PaymentLegForm[]>([{ ...EMPTY_PAYMENT_LEG }]);
   const [loading, setLoading] = useState(false);
+  const [holidayCalendar, setHolidayCalendar] = useState<HolidayCalendar>(() => createHolidayCalendar());
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+  const [feeRules, setFeeRules] = useState<CardFeeRule[]>([]);
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [patients, setPatients] = useState<PatientSummary[]>([]);
+  const [contact, setContact] = useState<PatientContactForm>(EMPTY_PATIENT_CONTACT);
+  const [showContact, setShowContact] = useState(false);
+
+  useEffect(() => {
+    fetchMunicipalHolidays()
+      .then(holidays => setHolidayCalendar(createHolidayCalendar(holidays)))
+      .catch(error => console.error('Error fetching holidays:', error));
+
+    fetchClinicSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching settings:', error));
+
+    fetchCardFeeRules()
+      .then(setFeeRules)
+      .catch(error => console.error('Error fetching card fee rules:', error));
+
+    fetchProcedures()
+      .then(catalog => {
+        const active = catalog.filter(procedure => procedure.active);
+        setProcedures(active);
+
+        // O procedimento vindo da agenda também sugere preço e sessões do catálogo
+        const match = booking && findProcedureByName(active, booking.procedure);
+        if (match) {
+          setFormData(prev => ({
+            ...prev,
+            total_value: Number(match.default_price) > 0 ? Number(match.default_price).toFixed(2) : prev.total_value,
+            sessions_purchased: match.typical_sessions > 1 ? match.typical_sessions.toString() : prev.sessions_purchased,
+          }));
+        }
+      })
+      .catch(error => console.error('Error fetching procedures:', error));
+
+    fetchProfessionals()
+      .then(list => setProfessionals(list.filter(professional => professional.active)))
+      .catch(error => console.error('Error fetching professionals:', error));
+
+    fetchPatientSummaries()
+      .then(setPatients)
+      .catch(error => console.error('Error fetching patients:', error));
+  }, []);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
-    if (name === 'total_value') {
+    if (name === 'total_value' || name === 'down_payment_value') {
       // Remove tudo que não for número
       const numericValue = value.replace(/\D/g, '');
       
@@ -36,17 +130,16 @@ const NewAppointment = () => {
       
       // Armazena o valor numérico para cálculos
       setFormData(prev => ({ ...prev, [name]: amount }));
-    } else if (name === 'payment_method') {
-      if (value === 'pix' || value === 'cash') {
-        setFormData(prev => ({
-          ...prev,
-          payment_method: value,
-          installments: '1',
-          installment_value: formData.total_value
-        }));
-      } else {
-        setFormData(prev => ({ ...prev, payment_method: value }));
-      }
+    } else if (name === 'procedure') {
+      // Ao escolher um procedimento do catálogo, o valor total parte do preço padrão
+      // e procedimentos de várias sessões já sugerem o pacote
+      const match = findProcedureByName(procedures, value);
+      setFormData(prev => ({
+        ...prev,
+        procedure: value,
+        total_value: match && Number(match.default_price) > 0 ? Number(match.default_price).toFixed(2) : prev.total_value,
+        sessions_purchased: match && match.typical_sessions > 1 ? match.typical_sessions.toString() : prev.sessions_purchased,
+      }));
     } else {
       setFormData(prev => ({ ...prev, [name]: value }));
     }
@@ -64,66 +157,54 @@ const NewAppointment = () => {
     });
   };
 
-  const calculateInstallmentValue = () => {
-    const total = parseFloat(formData.total_value) || 0;
-    const installments = parseInt(formData.installments) || 1;
-    return (total / installments).toLocaleString('pt-BR', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-  };
+  const selectedProcedure = findProcedureByName(procedures, formData.procedure);
+  const cpfDigits = normalizeCpf(formData.cpf);
+  const patientMatches = findPatientMatches(patients, { name: formData.patient_name, cpf: formData.cpf });
+  // Um CPF já cadastrado sempre registra o plano no cadastro existente
+  const reusedPatient = patients.find(patient => patient.cpf === cpfDigits) || null;
+  // Cadastros antigos podem ter CPF com dígito errado; só um CPF novo precisa ser válido
+  const cpfInvalid = !reusedPatient && cpfDigits.length === 11 && !isValidCpf(cpfDigits);
 
-  const adjustForWeekend = (date: Date): Date => {
-    // Se cair no sábado (6), move para segunda (adiciona 2 dias)
-    // Se cair no domingo (0), move para segunda (adiciona 1 dia)
-    if (date.getDay() === 6) { // Sábado
-      return addDays(date, 2);
-    } else if (date.getDay() === 0) { // Domingo
-      return addDays(date, 1);
-    }
-    return date;
+  const reusePatient = (patient: PatientSummary) => {
+    setFormData(prev => ({ ...prev, patient_name: patient.name, cpf: patient.cpf }));
   };
+  const totalCents = toCents(formData.total_value);
+  const downPaymentCents = toCents(formData.down_payment_value);
 
-  const calculateInstallmentDates = (procedureDateStr: string, numberOfInstallments: number, paymentMethod: string): string[] => {
-    const dates: string[] = [];
-    
-    const procedureDate = zonedTimeToUtc(`${procedureDateStr}T12:00:00`, timeZone);
-    
-    if (paymentMethod === 'pix' || paymentMethod === 'cash') {
-      dates.push(format(procedureDate, 'yyyy-MM-dd'));
-      return dates;
+  const getPlannedLegs = () => planLegs({
+    totalCents,
+    downPaymentCents,
+    downPaymentMethod: formData.down_payment_method,
+    legs,
+    procedureDate: formData.procedure_date,
+    calendar: holidayCalendar,
+    remainderTo: settings.installment_remainder,
+    feeRules,
+    scheduleRules: settings.schedule_rules,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reusedPatient && !isValidCpf(formData.cpf)) {
+      toast.error('CPF inválido. Confira os dígitos verificadores.');
+      return;
     }
-    
-    // Para parcelamento no cartão de crédito - uma parcela por mês
-    for (let i = 0; i < numberOfInstallments; i++) {
-      // Adiciona meses sequenciais a partir do mês seguinte ao procedimento
-      let installmentDate = addMonths(procedureDate, i + 1);
-      
-      // Pega o dia do procedimento
-      const procedureDay = getDate(procedureDate);
-      
-      // Verifica se o mês de destino tem esse dia (ex: 31 de janeiro -> 28/29 de fevereiro)
-      const daysInTargetMonth = getDaysInMonth(installmentDate);
-      
-      if (procedureDay > daysInTargetMonth) {
-        // Se o dia não existe no mês (ex: 31 em fevereiro), usa o último dia do mês
-        installmentDate = new Date(installmentDate.getFullYear(), installmentDate.getMonth(), daysInTargetMonth);
-      } else {
-        // Usa o mesmo dia do procedimento
-        installmentDate = new Date(installmentDate.getFullYear(), installmentDate.getMonth(), procedureDay);
-      }
-      
-      // Ajusta para segunda-feira se cair no fim de semana
-      installmentDate = adjustForWeekend(installmentDate);
-      
-      dates.push(format(installmentDate, 'yyyy-MM-dd'));
+
+    const contactError = validatePatientContact(contact);
+    if (contactError) {
+      setShowContact(true);
+      toast.error(contactError);
+      return;
     }
 
-    return dates;
-  };
+    const plannedLegs = getPlannedLegs();
+    const planError = validatePlan(plannedLegs, totalCents);
+    if (planError) {
+      toast.error(planError);
+      return;
+    }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
     setLoading(true);
 
     const toastId = toast.loading('Salvando agendamento...');
@@ -135,40 +216,31 @@ const NewAppointment = () => {
         throw new Error('User not authenticated');
       }
 
-      const installmentDates = calculateInstallmentDates(
-        formData.procedure_date,
-        parseInt(formData.installments),
-        formData.payment_method
-      );
+      const patient = await findOrCreatePatient(user.id, formData.patient_name, formData.cpf);
+      await fillPatientContact(patient.id, contact);
 
       // Cria a data do procedimento no fuso horário de São Paulo e converte para UTC
       const procedureDateTime = zonedTimeToUtc(`${formData.procedure_date}T12:00:00`, timeZone);
 
-      const appointments = installmentDates.map((date, index) => ({
-        patient_name: formData.patient_name,
-        cpf: formData.cpf.replace(/\D/g, ''),
+      await createTreatmentPlan({
+        patientId: patient.id,
         procedure: formData.procedure,
-        total_value: parseFloat(formData.total_value),
-        installments: parseInt(formData.installments),
-        installment_value: parseFloat(formData.total_value) / parseInt(formData.installments),
-        procedure_date: format(procedureDateTime, 'yyyy-MM-dd'),
-        next_payment_date: date,
-        status: formData.payment_method === 'pix' || formData.payment_method === 'cash' ? 'paid' : 'pending',
-        user_id: user.id,
-        installment_number: index + 1,
-        payment_method: formData.payment_method
-      }));
-
-      const { error: supabaseError } = await supabase
-        .from('appointments')
-        .insert(appointments);
-
-      if (supabaseError) throw supabaseError;
+        procedureDate: format(procedureDateTime, 'yyyy-MM-dd'),
+        totalCents,
+        legs: plannedLegs,
+        professionalId: formData.professional_id || null,
+        sessionsPurchased: parseInt(formData.sessions_purchased) || null,
+        packageValidUntil: formData.package_valid_until || null,
+        bookingId: booking?.id || null,
+      });
 
       toast.success('Agendamento salvo com sucesso!', { id: toastId });
       navigate('/dashboard');
     } catch (err) {
-      toast.error('Erro ao criar agendamento. Por favor, tente novamente.', { id: toastId });
+      toast.error(
+        patientErrorMessage(err, planErrorMessage(err, 'Erro ao criar agendamento. Por favor, tente novamente.')),
+        { id: toastId }
+      );
       console.error('Error creating appointment:', err);
     } finally {
       setLoading(false);
@@ -176,37 +248,45 @@ const NewAppointment = () => {
   };
 
   const previewInstallments = () => {
-    if (!formData.procedure_date || !formData.installments) return null;
-
-    const dates = calculateInstallmentDates(
-      formData.procedure_date,
-      parseInt(formData.installments),
-      formData.payment_method
-    );
-    const installmentValue = parseFloat(formData.total_value) / parseInt(formData.installments);
-
-    return dates.map((date, index) => (
-      <div key={date} className="flex justify-between items-center py-2 border-b last:border-b-0">
-        <span>
-          {formData.payment_method === 'credit_card' 
-            ? `Parcela ${index + 1}` 
-            : 'Pagamento à vista'}
-        </span>
-        <div className="text-right">
-          <div className="font-medium">
-            {installmentValue.toLocaleString('pt-BR', { 
-              style: 'currency', 
-              currency: 'BRL' 
-            })}
-          </div>
-          <div className="text-sm text-gray-600">
-            {format(parseISO(date), 'dd/MM/yyyy')}
-          </div>
+    if (!formData.procedure_date) return null;
+
+    return getPlannedLegs().map((leg, legIndex) => (
+      <div key={legIndex} className="space-y-1">
+        <div className="text-sm font-medium text-gray-700">
+          {legLabel(leg)} · {formatCents(Math.max(leg.amountCents, 0))}
         </div>
+        {leg.dates.map((date, index) => (
+          <div key={date} className="flex justify-between items-center py-2 border-b last:border-b-0">
+            <span>
+              {leg.is_down_payment
+                ? 'Entrada'
+                : leg.dates.length > 1 ? `Parcela ${index + 1}` : 'Pagamento à vista'}
+              {leg.is_down_payment && (
+                <span className="block text-xs text-green-700">pago no ato</span>
+              )}
+            </span>
+            <div className="text-right">
+              <div className="font-medium">
+                {formatCents(leg.amounts[index])}
+              </div>
+              <div className="text-sm text-gray-600">
+                {format(parseISO(date), 'dd/MM/yyyy')}
+              </div>
+              {leg.netAmounts[index] !== leg.amounts[index] && (
+                <div className="text-xs text-gray-500">
+                  Líquido {formatCents(leg.netAmounts[index])} em {format(parseISO(leg.settlementDates[index]), 'dd/MM/yyyy')}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
       </div>
     ));
   };
 
+  const hasCentsRemainder = () => getPlannedLegs()
+    .some(leg => leg.amounts.length > 1 && leg.amountCents % leg.amounts.length !== 0);
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       <div className="flex items-center gap-4 mb-8">
@@ -216,7 +296,12 @@ const NewAppointment = () => {
         >
           <ArrowLeft className="w-6 h-6" />
         </button>
-        <h1 className="text-3xl font-bold text-gray-900">Novo Agendamento</h1>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Novo Agendamento</h1>
+          {booking && (
+            <p className="text-gray-600">Plano de pagamento do horário marcado na agenda</p>
+          )}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -258,6 +343,37 @@ const NewAppointment = () => {
                 className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
                 placeholder="000.000.000-00"
               />
+              {cpfInvalid && (
+                <p className="mt-1 text-sm text-red-600">CPF inválido. Confira os dígitos verificadores.</p>
+              )}
+            </div>
+
+            <PatientMatchNotice
+              matches={patientMatches}
+              onReuse={reusePatient}
+              selectedId={reusedPatient?.id}
+            />
+
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowContact(prev => !prev)}
+                className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                <Phone className="w-4 h-4" />
+                <span>Contato e Endereço</span>
+                {showContact ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </button>
+              {showContact && (
+                <div className="mt-4">
+                  {reusedPatient && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      Só os campos preenchidos aqui substituem os dados do cadastro existente.
+                    </p>
+                  )}
+                  <PatientContactFields contact={contact} onChange={setContact} />
+                </div>
+              )}
             </div>
 
             <div>
@@ -273,28 +389,86 @@ const NewAppointment = () => {
                 value={formData.procedure}
                 onChange={handleInputChange}
                 required
+                list="procedure-catalog"
+                autoComplete="off"
                 className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
-                placeholder="Descreva o procedimento"
+                placeholder="Busque no catálogo ou descreva o procedimento"
               />
+              <datalist id="procedure-catalog">
+                {procedures.map(procedure => (
+                  <option key={procedure.id} value={procedure.name}>
+                    {[procedure.category, formatCents(toCents(procedure.default_price))].filter(Boolean).join(' · ')}
+                  </option>
+                ))}
+              </datalist>
+              {selectedProcedure && (
+                <p className="mt-1 text-sm text-gray-600">
+                  Catálogo: {formatCents(toCents(selectedProcedure.default_price))}
+                  {' · '}{selectedProcedure.typical_sessions} {selectedProcedure.typical_sessions === 1 ? 'sessão' : 'sessões'}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <div className="flex items-center gap-2">
+                    <DollarSign className="w-4 h-4" />
+                    <span>Valor Total</span>
+                    <Tooltip content="Digite o valor total do procedimento" />
+                  </div>
+                </label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+                  <input
+                    type="text"
+                    name="total_value"
+                    value={formatCurrency(formData.total_value)}
+                    onChange={handleInputChange}
+                    required
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+                    placeholder="0,00"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="w-4 h-4" />
+                    <span>Data do Procedimento</span>
+                    <Tooltip content="Selecione a data em que o procedimento será realizado" />
+                  </div>
+                </label>
+                <input
+                  type="date"
+                  name="procedure_date"
+                  value={formData.procedure_date}
+                  onChange={handleInputChange}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+                />
+              </div>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <div className="flex items-center gap-2">
-                  <CreditCard className="w-4 h-4" />
-                  <span>Forma de Pagamento</span>
+                  <UserCheck className="w-4 h-4" />
+                  <span>Profissional</span>
+                  <Tooltip content="Opcional. Responsável pelo tratamento; usado no cálculo das comissões" />
                 </div>
               </label>
               <select
-                name="payment_method"
-                value={formData.payment_method}
+                name="professional_id"
+                value={formData.professional_id}
                 onChange={handleInputChange}
-                required
                 className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
               >
-                <option value="credit_card">Cartão de Crédito</option>
-                <option value="pix">PIX</option>
-                <option value="cash">Dinheiro</option>
+                <option value="">Sem profissional</option>
+                {professionals.map(professional => (
+                  <option key={professional.id} value={professional.id}>{professional.name}</option>
+                ))}
               </select>
             </div>
 
@@ -302,19 +476,56 @@ const NewAppointment = () => {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <div className="flex items-center gap-2">
-                    <DollarSign className="w-4 h-4" />
-                    <span>Valor Total</span>
-                    <Tooltip content="Digite o valor total do procedimento" />
+                    <Layers className="w-4 h-4" />
+                    <span>Sessões do Pacote</span>
+                    <Tooltip content="Opcional. Número de sessões vendidas no pacote; as sessões realizadas são registradas no Histórico" />
+                  </div>
+                </label>
+                <input
+                  type="number"
+                  name="sessions_purchased"
+                  value={formData.sessions_purchased}
+                  onChange={handleInputChange}
+                  min="1"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <div className="flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4" />
+                    <span>Validade do Pacote</span>
+                    <Tooltip content="Opcional. Data limite para realizar as sessões do pacote" />
+                  </div>
+                </label>
+                <input
+                  type="date"
+                  name="package_valid_until"
+                  value={formData.package_valid_until}
+                  onChange={handleInputChange}
+                  disabled={!formData.sessions_purchased}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <div className="flex items-center gap-2">
+                    <Wallet className="w-4 h-4" />
+                    <span>Valor da Entrada</span>
+                    <Tooltip content="Opcional. Valor pago no dia do procedimento; o restante é parcelado" />
                   </div>
                 </label>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
                   <input
                     type="text"
-                    name="total_value"
-                    value={formatCurrency(formData.total_value)}
+                    name="down_payment_value"
+                    value={formatCurrency(formData.down_payment_value)}
                     onChange={handleInputChange}
-                    required
                     className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
                     placeholder="0,00"
                   />
@@ -324,39 +535,37 @@ const NewAppointment = () => {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <div className="flex items-center gap-2">
-                    <DollarSign className="w-4 h-4" />
-                    <span>Número de Parcelas</span>
-                    <Tooltip content="Em quantas vezes será dividido o pagamento" />
+                    <CreditCard className="w-4 h-4" />
+                    <span>Forma da Entrada</span>
                   </div>
                 </label>
-                <input
-                  type="number"
-                  name="installments"
-                  value={formData.installments}
+                <select
+                  name="down_payment_method"
+                  value={formData.down_payment_method}
                   onChange={handleInputChange}
-                  required
-                  min="1"
-                  disabled={formData.payment_method === 'pix' || formData.payment_method === 'cash'}
+                  disabled={downPaymentCents === 0}
                   className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary disabled:bg-gray-100 disabled:cursor-not-allowed"
-                />
+                >
+                  {DOWN_PAYMENT_METHODS.map(method => (
+                    <option key={method} value={method}>{paymentMethodLabel(method)}</option>
+                  ))}
+                </select>
               </div>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <div className="flex items-center gap-2">
-                  <Calendar className="w-4 h-4" />
-                  <span>Data do Procedimento</span>
-                  <Tooltip content="Selecione a data em que o procedimento será realizado" />
+                  <CreditCard className="w-4 h-4" />
+                  <span>Formas de Pagamento</span>
+                  <Tooltip content="Divida o valor restante entre uma ou mais formas de pagamento; a última fica com o que faltar" />
                 </div>
               </label>
-              <input
-                type="date"
-                name="procedure_date"
-                value={formData.procedure_date}
-                onChange={handleInputChange}
-                required
-                className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+              <PaymentLegsEditor
+                legs={legs}
+                onChange={setLegs}
+                totalCents={totalCents}
+                downPaymentCents={downPaymentCents}
               />
             </div>
 
@@ -373,32 +582,37 @@ const NewAppointment = () => {
         <div className="lg:col-span-1">
           <div className="bg-white p-6 rounded-lg shadow">
             <h2 className="text-lg font-semibold mb-4">Resumo do Pagamento</h2>
-            {formData.total_value && formData.installments && formData.procedure_date ? (
+            {formData.total_value && formData.procedure_date ? (
               <div className="space-y-4">
                 <div className="pb-4 border-b">
                   <div className="text-sm text-gray-600">Valor Total</div>
                   <div className="text-2xl font-bold">
                     R$ {formatCurrency(formData.total_value)}
                   </div>
-                  <div className="text-sm text-gray-600 mt-2">
-                    Forma de Pagamento: {
-                      formData.payment_method === 'credit_card' ? 'Cartão de Crédito' :
-                      formData.payment_method === 'pix' ? 'PIX' : 'Dinheiro'
-                    }
-                  </div>
+                  {downPaymentCents > 0 && (
+                    <div className="text-sm text-gray-600 mt-2">
+                      Entrada: {formatCents(downPaymentCents)} ({paymentMethodLabel(formData.down_payment_method)})
+                      <br />
+                      Valor Financiado: {formatCents(Math.max(totalCents - downPaymentCents, 0))}
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-2">
-                  <div className="text-sm font-medium text-gray-700">
-                    {formData.payment_method === 'credit_card' ? 'Parcelas:' : 'Pagamento:'}
-                  </div>
-                  <div className="space-y-2">
+                  <div className="text-sm font-medium text-gray-700">Pagamento:</div>
+                  <div className="space-y-4">
                     {previewInstallments()}
                   </div>
+                  {hasCentsRemainder() && (
+                    <p className="text-xs text-gray-500 pt-2">
+                      Os centavos que sobram da divisão ficam na {settings.installment_remainder === 'first' ? 'primeira' : 'última'} parcela
+                      de cada forma de pagamento, para que a soma seja exatamente o valor de cada uma.
+                    </p>
+                  )}
                 </div>
               </div>
             ) : (
               <div className="text-gray-500 text-sm">
-                Preencha os campos de valor, número de parcelas e data para ver o resumo do pagamento.
+                Preencha os campos de valor e data para ver o resumo do pagamento.
               </div>
             )}
           </div>
@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { ArrowLeft, Edit2, Phone, Mail, MapPin, Cake, FileText, MessageCircle, LifeBuoy } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import EditPatientModal from '../components/EditPatientModal';
+import { Patient, formatAddress, formatCpf, formatPhone, phoneLink, whatsappLink } from '../lib/patients';
+import { fromCents, toCents } from '../lib/money';
+import { remainingCents } from '../lib/payments';
+import { installmentLabel } from '../lib/treatments';
+import { isOpenInstallment } from '../lib/renegotiations';
+import { TreatmentSession, packageStatus, packageWarning } from '../lib/packages';
+
+const timeZone = 'America/Sao_Paulo';
+
+interface Appointment {
+  id: string;
+  leg: {
+    position: number;
+    payment_method: string;
+    installments: number;
+    is_down_payment: boolean;
+  };
+  installment_value: number;
+  amount_paid: number;
+  next_payment_date: string;
+  status: 'pending' | 'paid' | 'overdue' | 'renegotiated';
+  installment_number: number;
+}
+
+interface Treatment {
+  id: string;
+  procedure: string;
+  procedure_date: string;
+  total_value: number;
+  sessions_purchased: number | null;
+  package_valid_until: string | null;
+  appointments: Appointment[];
+  sessions: TreatmentSession[];
+}
+
+const formatCurrency = (value: number) => {
+  return value.toLocaleString('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  });
+};
+
+const formatDate = (dateString: string) => format(parseISO(dateString), 'dd/MM/yyyy');
+
+// Pagamentos parciais contam no pago; o saldo da parcela fica em aberto,
+// exceto nas parcelas renegociadas, cujo saldo passou para o novo plano
+const sumInstallments = (appointments: Appointment[], paid: boolean) =>
+  fromCents(appointments.reduce((sum, appointment) => sum + (paid
+    ? toCents(appointment.amount_paid)
+    : isOpenInstallment(appointment) ? remainingCents(appointment) : 0), 0));
+
+const PatientProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [treatments, setTreatments] = useState<Treatment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+
+  useEffect(() => {
+    fetchPatient();
+  }, [id]);
+
+  const fetchPatient = async () => {
+    if (!id) return;
+
+    setLoading(true);
+    try {
+      const { data: patientData, error: patientError } = await supabase
+        .from('patients')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (patientError) throw patientError;
+
+      const { data: treatmentsData, error: treatmentsError } = await supabase
+        .from('treatments')
+        .select('*, appointments(*, leg:payment_legs(position, payment_method, installments, is_down_payment)), sessions:treatment_sessions(*)')
+        .eq('patient_id', id)
+        .order('procedure_date', { ascending: false });
+
+      if (treatmentsError) throw treatmentsError;
+
+      setPatient(patientData);
+      setTreatments((treatmentsData || []).map((treatment: Treatment) => ({
+        ...treatment,
+        appointments: [...treatment.appointments].sort(
+          (a, b) => a.leg.position - b.leg.position || a.installment_number - b.installment_number
+        ),
+      })));
+    } catch (error) {
+      console.error('Error fetching patient:', error);
+      toast.error('Erro ao carregar paciente');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Carregando...</div>;
+  }
+
+  if (!patient) {
+    return <div className="text-center py-4 text-gray-600">Paciente não encontrado.</div>;
+  }
+
+  const totalContracted = treatments.reduce((sum, treatment) => sum + Number(treatment.total_value), 0);
+  const totalPaid = treatments.reduce((sum, treatment) => sum + sumInstallments(treatment.appointments, true), 0);
+  const totalOpen = treatments.reduce((sum, treatment) => sum + sumInstallments(treatment.appointments, false), 0);
+  const today = format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd');
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center gap-4 mb-8">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+        >
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-3xl font-bold text-gray-900">{patient.name}</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-lg shadow p-6 lg:col-span-2">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-xl font-semibold">Dados do Paciente</h2>
+              <p className="text-gray-600">CPF: {formatCpf(patient.cpf)}</p>
+            </div>
+            <button
+              onClick={() => setIsEditModalOpen(true)}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+              title="Editar paciente"
+            >
+              <Edit2 className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700">
+            <div className="flex items-center gap-2">
+              <Phone className="w-4 h-4 text-gray-400" />
+              {patient.phone ? (
+                <a href={phoneLink(patient.phone)} className="hover:text-primary">{formatPhone(patient.phone)}</a>
+              ) : (
+                <span>Telefone não informado</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <MessageCircle className="w-4 h-4 text-gray-400" />
+              {patient.whatsapp ? (
+                <a
+                  href={whatsappLink(patient.whatsapp)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-primary"
+                >
+                  {formatPhone(patient.whatsapp)}
+                </a>
+              ) : (
+                <span>WhatsApp não informado</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Mail className="w-4 h-4 text-gray-400" />
+              <span>{patient.email || 'E-mail não informado'}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Cake className="w-4 h-4 text-gray-400" />
+              <span>{patient.birth_date ? formatDate(patient.birth_date) : 'Nascimento não informado'}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <MapPin className="w-4 h-4 text-gray-400" />
+              <span>{formatAddress(patient) || 'Endereço não informado'}</span>
+            </div>
+            <div className="flex items-center gap-2 md:col-span-2">
+              <LifeBuoy className="w-4 h-4 text-gray-400" />
+              <span>
+                {patient.emergency_contact_name || patient.emergency_contact_phone
+                  ? `Emergência: ${[
+                    patient.emergency_contact_name,
+                    patient.emergency_contact_phone && formatPhone(patient.emergency_contact_phone),
+                  ].filter(Boolean).join(' · ')}`
+                  : 'Contato de emergência não informado'}
+              </span>
+            </div>
+            {patient.notes && (
+              <div className="flex items-start gap-2 md:col-span-2">
+                <FileText className="w-4 h-4 text-gray-400 mt-0.5" />
+                <span>{patient.notes}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <p className="text-sm text-gray-600">Total Contratado</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalContracted)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Total Pago</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(totalPaid)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Saldo em Aberto</p>
+            <p className={`text-2xl font-bold ${totalOpen > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatCurrency(totalOpen)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <h2 className="text-2xl font-semibold mb-4">Tratamentos</h2>
+      {treatments.length > 0 ? (
+        <div className="space-y-6">
+          {treatments.map(treatment => {
+            const sessionPackage = packageStatus(treatment, treatment.sessions, today);
+            const warning = packageWarning(sessionPackage);
+
+            return (
+            <div key={treatment.id} className="bg-white rounded-lg shadow p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold">{treatment.procedure}</h3>
+                  <p className="text-sm text-gray-600">
+                    Data do Procedimento: {formatDate(treatment.procedure_date)}
+                  </p>
+                  {sessionPackage && (
+                    <p className="text-sm text-gray-600">
+                      Pacote: {sessionPackage.performed} de {sessionPackage.purchased} sessões realizadas
+                      {treatment.package_valid_until && ` · Validade: ${formatDate(treatment.package_valid_until)}`}
+                    </p>
+                  )}
+                  {warning && (
+                    <p className={`text-sm ${sessionPackage?.fullyUsed ? 'text-green-700' : 'text-red-600'}`}>
+                      {warning}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <p className="font-bold">{formatCurrency(Number(treatment.total_value))}</p>
+                  <p className="text-sm text-gray-600">
+                    Pago: {formatCurrency(sumInstallments(treatment.appointments, true))}
+                    {' · '}
+                    Em aberto: {formatCurrency(sumInstallments(treatment.appointments, false))}
+                  </p>
+                </div>
+              </div>
+              <div className="grid gap-2">
+                {treatment.appointments.map(installment => (
+                  <div
+                    key={installment.id}
+                    className="flex justify-between items-center p-3 bg-gray-50 rounded text-sm"
+                  >
+                    <span>
+                      {installmentLabel(installment.installment_number, installment.leg)}
+                      <span className="text-gray-600"> · Vencimento: {formatDate(installment.next_payment_date)}</span>
+                      {installment.status === 'renegotiated' && <span className="text-blue-700"> · Renegociada</span>}
+                    </span>
+                    <span className={installment.status === 'paid' ? 'text-green-700' : installment.status === 'renegotiated' ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                      {formatCurrency(Number(installment.installment_value))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-4 text-gray-600">
+          Nenhum tratamento encontrado.
+        </div>
+      )}
+
+      <EditPatientModal
+        isOpen={isEditModalOpen}
+        onClose={() => setIsEditModalOpen(false)}
+        patient={patient}
+        onSuccess={fetchPatient}
+      />
+    </div>
+  );
+};
+
+export default PatientProfile;
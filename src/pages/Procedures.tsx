@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Stethoscope, Plus, Edit2, Link2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCents, fromCents, toCents } from '../lib/money';
+import {
+  Procedure,
+  UnmappedProcedure,
+  fetchProcedures,
+  fetchUnmappedProcedures,
+  findProcedureByName,
+  mapProcedureText,
+} from '../lib/procedures';
+
+const EMPTY_PROCEDURE_FORM = {
+  name: '',
+  category: '',
+  default_price: '',
+  typical_sessions: '1',
+};
+
+const Procedures = () => {
+  const [procedures, setProcedures] = useState<Procedure[]>([]);
+  const [unmapped, setUnmapped] = useState<UnmappedProcedure[]>([]);
+  const [formData, setFormData] = useState(EMPTY_PROCEDURE_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Entrada do catálogo escolhida para cada texto livre ainda não vinculado
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      const [catalog, unmappedTexts] = await Promise.all([fetchProcedures(), fetchUnmappedProcedures()]);
+      setProcedures(catalog);
+      setUnmapped(unmappedTexts);
+      // Sugere a entrada de mesmo nome quando existir
+      setMappings(Object.fromEntries(unmappedTexts.map(({ procedure }) => [
+        procedure,
+        findProcedureByName(catalog, procedure)?.id || '',
+      ])));
+    } catch (error) {
+      console.error('Error fetching procedures:', error);
+      toast.error('Erro ao carregar procedimentos');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+
+    if (name === 'default_price') {
+      // Remove tudo que não for número
+      const numericValue = value.replace(/\D/g, '');
+      setFormData(prev => ({ ...prev, default_price: (parseInt(numericValue || '0', 10) / 100).toFixed(2) }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const formatCurrency = (value: string) => {
+    if (!value) return '';
+    return fromCents(toCents(value)).toLocaleString('pt-BR', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const startEditing = (procedure: Procedure) => {
+    setEditingId(procedure.id);
+    setFormData({
+      name: procedure.name,
+      category: procedure.category || '',
+      default_price: Number(procedure.default_price).toFixed(2),
+      typical_sessions: procedure.typical_sessions.toString(),
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setFormData(EMPTY_PROCEDURE_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const duplicate = findProcedureByName(procedures, formData.name);
+    if (duplicate && duplicate.id !== editingId) {
+      toast.error('Já existe um procedimento com esse nome.');
+      return;
+    }
+
+    setLoading(true);
+    const toastId = toast.loading('Salvando procedimento...');
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const values = {
+        name: formData.name.trim(),
+        category: formData.category.trim() || null,
+        default_price: fromCents(toCents(formData.default_price)),
+        typical_sessions: Math.max(parseInt(formData.typical_sessions) || 1, 1),
+      };
+
+      const { error } = editingId
+        ? await supabase.from('procedures').update(values).eq('id', editingId)
+        : await supabase.from('procedures').insert([{ ...values, user_id: user.id }]);
+
+      if (error) throw error;
+
+      toast.success('Procedimento salvo com sucesso!', { id: toastId });
+      cancelEditing();
+      await fetchCatalog();
+    } catch (error) {
+      console.error('Error saving procedure:', error);
+      toast.error('Erro ao salvar procedimento', { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (procedure: Procedure) => {
+    try {
+      const { error } = await supabase
+        .from('procedures')
+        .update({ active: !procedure.active })
+        .eq('id', procedure.id);
+
+      if (error) throw error;
+
+      await fetchCatalog();
+    } catch (error) {
+      console.error('Error updating procedure:', error);
+      toast.error('Erro ao atualizar procedimento.');
+    }
+  };
+
+  const handleMap = async (text: string) => {
+    const procedure = procedures.find(p => p.id === mappings[text]);
+    if (!procedure) {
+      toast.error('Escolha um procedimento do catálogo.');
+      return;
+    }
+
+    const toastId = toast.loading('Vinculando tratamentos...');
+    try {
+      await mapProcedureText(text, procedure);
+      toast.success(`"${text}" vinculado a ${procedure.name}.`, { id: toastId });
+      await fetchCatalog();
+    } catch (error) {
+      console.error('Error mapping procedure:', error);
+      toast.error('Erro ao vincular tratamentos.', { id: toastId });
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h1 className="text-3xl font-bold mb-8">Procedimentos</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center mb-4">
+          <Stethoscope className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Catálogo</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          O Novo Agendamento sugere os procedimentos ativos e preenche o valor total com o preço padrão.
+        </p>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end mb-6">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Nome
+            </label>
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleInputChange}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Ex: Toxina botulínica"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Categoria
+            </label>
+            <input
+              type="text"
+              name="category"
+              value={formData.category}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Ex: Injetáveis"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Preço Padrão
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">R$</span>
+              <input
+                type="text"
+                name="default_price"
+                value={formatCurrency(formData.default_price)}
+                onChange={handleInputChange}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                placeholder="0,00"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sessões
+            </label>
+            <input
+              type="number"
+              name="typical_sessions"
+              value={formData.typical_sessions}
+              onChange={handleInputChange}
+              min="1"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div className="flex gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={cancelEditing}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancelar
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary flex items-center justify-center gap-2 disabled:opacity-50 flex-1"
+            >
+              {editingId ? 'Salvar' : (
+                <>
+                  <Plus className="w-4 h-4" />
+                  Adicionar
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+
+        <div className="divide-y">
+          {procedures.map(procedure => (
+            <div key={procedure.id} className="flex justify-between items-center py-3">
+              <div className={procedure.active ? '' : 'text-gray-400'}>
+                <p className="font-medium">
+                  {procedure.name}
+                  {procedure.category && <span className="text-sm font-normal text-gray-500"> · {procedure.category}</span>}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {formatCents(toCents(procedure.default_price))}
+                  {' · '}{procedure.typical_sessions} {procedure.typical_sessions === 1 ? 'sessão' : 'sessões'}
+                  {!procedure.active && ' · inativo'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleToggleActive(procedure)}
+                  className="text-sm text-gray-600 hover:underline"
+                >
+                  {procedure.active ? 'Desativar' : 'Ativar'}
+                </button>
+                <button
+                  onClick={() => startEditing(procedure)}
+                  className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full transition-colors"
+                  title="Editar procedimento"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {procedures.length === 0 && (
+            <p className="text-gray-500 text-center py-4">Nenhum procedimento cadastrado</p>
+          )}
+        </div>
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-4">
+            <Link2 className="w-6 h-6 icon-primary mr-2" />
+            <h2 className="text-xl font-semibold">Procedimentos sem Cadastro</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            Textos digitados em tratamentos anteriores. Ao vincular, os tratamentos passam a usar o nome do catálogo.
+          </p>
+
+          <div className="divide-y">
+            {unmapped.map(({ procedure: text, count }) => (
+              <div key={text} className="flex flex-col md:flex-row md:justify-between md:items-center gap-2 py-3">
+                <div>
+                  <p className="font-medium">{text}</p>
+                  <p className="text-sm text-gray-600">{count} {count === 1 ? 'tratamento' : 'tratamentos'}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={mappings[text] || ''}
+                    onChange={(e) => setMappings(prev => ({ ...prev, [text]: e.target.value }))}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  >
+                    <option value="">Escolha um procedimento</option>
+                    {procedures.map(procedure => (
+                      <option key={procedure.id} value={procedure.id}>{procedure.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleMap(text)}
+                    className="btn-primary"
+                  >
+                    Vincular
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Procedures;
@@ -0,0 +1,410 @@
+import { useState, useEffect } from 'react';
+import { Bell, Send, MessageCircle, Copy, FileText } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { utcToZonedTime } from 'date-fns-tz';
+import toast from 'react-hot-toast';
+import { formatPhone } from '../lib/patients';
+import { installmentLabel } from '../lib/treatments';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings } from '../lib/settings';
+import {
+  DEFAULT_REMINDER_TEMPLATES,
+  MANUAL_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_STATUS_LABELS,
+  REMINDER_KINDS,
+  REMINDER_KIND_LABELS,
+  REMINDER_PLACEHOLDERS,
+  ReminderCandidate,
+  ReminderKind,
+  ReminderNotification,
+  ReminderTemplate,
+  cancelNotification,
+  dispatchQueuedEmails,
+  fetchNotifications,
+  fetchReminderCandidates,
+  fetchReminderTemplates,
+  markNotificationSent,
+  queueReminders,
+  retryNotification,
+  saveReminderTemplate,
+  whatsappMessageLink,
+} from '../lib/reminders';
+
+const timeZone = 'America/Sao_Paulo';
+
+type QueueItem = ReminderNotification & { patient: { name: string } | null };
+
+const STATUS_COLORS: Record<string, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const Reminders = () => {
+  const today = format(utcToZonedTime(new Date(), timeZone), 'yyyy-MM-dd');
+  const [templates, setTemplates] = useState<Record<ReminderKind, ReminderTemplate>>(DEFAULT_REMINDER_TEMPLATES);
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+  const [candidates, setCandidates] = useState<ReminderCandidate[]>([]);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [queueing, setQueueing] = useState(false);
+  const [dispatching, setDispatching] = useState(false);
+  const [savingKind, setSavingKind] = useState<ReminderKind | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [templateList, clinicSettings] = await Promise.all([fetchReminderTemplates(), fetchClinicSettings()]);
+      setTemplates(templateList);
+      setSettings(clinicSettings);
+      await refreshLists(templateList);
+    } catch (error) {
+      console.error('Error fetching reminders:', error);
+      toast.error('Erro ao carregar lembretes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshLists = async (templateList = templates) => {
+    const [candidateList, queued] = await Promise.all([
+      fetchReminderCandidates(today, templateList),
+      fetchNotifications(['queued', 'sending', 'failed']),
+    ]);
+    setCandidates(candidateList);
+    setQueue(queued);
+  };
+
+  const handleQueue = async () => {
+    setQueueing(true);
+    const toastId = toast.loading('Gerando lembretes...');
+
+    try {
+      const count = await queueReminders(candidates, templates, today, settings);
+      toast.success(
+        count === 0 ? 'Nenhum lembrete novo para enfileirar.' : `${count} ${count === 1 ? 'lembrete enfileirado' : 'lembretes enfileirados'}.`,
+        { id: toastId }
+      );
+      await refreshLists();
+    } catch (error) {
+      console.error('Error queueing reminders:', error);
+      toast.error('Erro ao gerar lembretes.', { id: toastId });
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const handleDispatch = async () => {
+    setDispatching(true);
+    const toastId = toast.loading('Enviando e-mails...');
+
+    try {
+      const { sent, failed } = await dispatchQueuedEmails();
+      if (failed > 0) {
+        toast.error(`${sent} enviados, ${failed} com erro. Eles serão tentados novamente.`, { id: toastId });
+      } else {
+        toast.success(sent === 0 ? 'Nenhum e-mail pendente.' : `${sent} e-mails enviados.`, { id: toastId });
+      }
+      await refreshLists();
+    } catch (error) {
+      console.error('Error dispatching emails:', error);
+      toast.error('Erro ao enviar e-mails. Confira a configuração do SMTP.', { id: toastId });
+    } finally {
+      setDispatching(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      await action();
+      await refreshLists();
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleCopy = async (notification: QueueItem) => {
+    try {
+      await navigator.clipboard.writeText(notification.body);
+      toast.success('Mensagem copiada.');
+    } catch (error) {
+      console.error('Error copying message:', error);
+      toast.error('Não foi possível copiar a mensagem.');
+    }
+  };
+
+  const handleTemplateChange = (kind: ReminderKind, changes: Partial<ReminderTemplate>) => {
+    setTemplates(prev => ({ ...prev, [kind]: { ...prev[kind], ...changes } }));
+  };
+
+  const handleSaveTemplate = async (kind: ReminderKind) => {
+    if (!templates[kind].body.trim()) {
+      toast.error('A mensagem não pode ficar vazia.');
+      return;
+    }
+
+    setSavingKind(kind);
+    const toastId = toast.loading('Salvando modelo...');
+
+    try {
+      await saveReminderTemplate(templates[kind]);
+      toast.success('Modelo salvo com sucesso!', { id: toastId });
+      await refreshLists();
+    } catch (error) {
+      console.error('Error saving reminder template:', error);
+      toast.error('Erro ao salvar modelo.', { id: toastId });
+    } finally {
+      setSavingKind(null);
+    }
+  };
+
+  const contactChannels = ({ installment }: ReminderCandidate) => [
+    installment.treatment.patient.email && NOTIFICATION_CHANNEL_LABELS.email,
+    installment.treatment.patient.whatsapp && NOTIFICATION_CHANNEL_LABELS.whatsapp,
+  ].filter(Boolean).join(' e ');
+
+  const queuedEmails = queue.filter(notification => notification.channel === 'email' && notification.status === 'queued');
+
+  return (
+    <div className="p-6">
+      <h1 className="text-3xl font-bold mb-8">Lembretes de Pagamento</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <Bell className="w-6 h-6 icon-primary mr-2" />
+            <h2 className="text-xl font-semibold">Parcelas para Lembrar Hoje</h2>
+          </div>
+          <button
+            onClick={handleQueue}
+            disabled={queueing || candidates.length === 0}
+            className="btn-primary disabled:opacity-50"
+          >
+            Gerar lembretes
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Cada parcela recebe um lembrete de cada tipo por canal. Pacientes sem e-mail ou WhatsApp cadastrado ficam de fora.
+        </p>
+
+        {loading ? (
+          <div className="text-center py-4">Carregando...</div>
+        ) : (
+          <div className="divide-y">
+            {candidates.map(candidate => (
+              <div key={candidate.installment.id} className="flex justify-between items-center py-3">
+                <div>
+                  <p className="font-medium">{candidate.installment.treatment.patient.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {installmentLabel(candidate.installment.installment_number, candidate.installment.leg)}
+                    {' · '}vence em {format(parseISO(candidate.installment.next_payment_date), 'dd/MM/yyyy')}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  <p className="font-medium">{REMINDER_KIND_LABELS[candidate.kind]}</p>
+                  <p className={contactChannels(candidate) ? 'text-gray-600' : 'text-red-600'}>
+                    {contactChannels(candidate) || 'Sem contato cadastrado'}
+                  </p>
+                </div>
+              </div>
+            ))}
+            {candidates.length === 0 && (
+              <p className="text-gray-500 text-center py-4">Nenhuma parcela pede lembrete hoje</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center">
+            <Send className="w-6 h-6 icon-primary mr-2" />
+            <h2 className="text-xl font-semibold">Fila de Envio</h2>
+          </div>
+          <button
+            onClick={handleDispatch}
+            disabled={dispatching || queuedEmails.length === 0}
+            className="btn-primary disabled:opacity-50"
+          >
+            Enviar e-mails ({queuedEmails.length})
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          E-mails com erro são tentados novamente algumas vezes antes de falhar. As mensagens de WhatsApp
+          são enviadas pela recepção: abra a conversa ou copie o texto e confirme o envio.
+        </p>
+
+        <div className="divide-y">
+          {queue.map(notification => {
+            const manual = MANUAL_CHANNELS.includes(notification.channel);
+
+            return (
+              <div key={notification.id} className="py-3">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-medium">
+                      {notification.patient?.name}
+                      <span className="text-sm font-normal text-gray-600">
+                        {' · '}{REMINDER_KIND_LABELS[notification.kind]}
+                        {' · '}{NOTIFICATION_CHANNEL_LABELS[notification.channel]}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {notification.channel === 'whatsapp' ? formatPhone(notification.recipient) : notification.recipient}
+                      {' · '}vencimento {format(parseISO(notification.due_date), 'dd/MM/yyyy')}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1 whitespace-pre-line">{notification.body}</p>
+                    {notification.last_error && (
+                      <p className="text-sm text-red-600 mt-1">
+                        Tentativa {notification.attempts} de {notification.max_attempts}: {notification.last_error}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`inline-block px-2 py-1 rounded-full text-sm whitespace-nowrap ${STATUS_COLORS[notification.status] || ''}`}>
+                    {NOTIFICATION_STATUS_LABELS[notification.status]}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                  {manual && notification.status === 'queued' && (
+                    <>
+                      <a
+                        href={whatsappMessageLink(notification)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-green-700 hover:underline"
+                      >
+                        <MessageCircle className="w-4 h-4" />
+                        Abrir WhatsApp
+                      </a>
+                      <button
+                        onClick={() => handleCopy(notification)}
+                        className="flex items-center gap-1 text-gray-600 hover:underline"
+                      >
+                        <Copy className="w-4 h-4" />
+                        Copiar mensagem
+                      </button>
+                      <button
+                        onClick={() => runAction(() => markNotificationSent(notification), 'Erro ao atualizar lembrete.')}
+                        className="text-primary hover:underline"
+                      >
+                        Marcar como enviado
+                      </button>
+                    </>
+                  )}
+                  {notification.status === 'failed' && (
+                    <button
+                      onClick={() => runAction(() => retryNotification(notification.id), 'Erro ao atualizar lembrete.')}
+                      className="text-primary hover:underline"
+                    >
+                      Tentar novamente
+                    </button>
+                  )}
+                  {notification.status !== 'sending' && (
+                    <button
+                      onClick={() => runAction(() => cancelNotification(notification.id), 'Erro ao cancelar lembrete.')}
+                      className="text-red-600 hover:underline"
+                    >
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {queue.length === 0 && (
+            <p className="text-gray-500 text-center py-4">Nenhum lembrete na fila</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center mb-4">
+          <FileText className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Modelos de Mensagem</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Campos disponíveis:{' '}
+          {Object.entries(REMINDER_PLACEHOLDERS).map(([field, description], index) => (
+            <span key={field}>
+              {index > 0 && ', '}
+              <code className="text-gray-800">{`{${field}}`}</code> ({description.toLowerCase()})
+            </span>
+          ))}
+        </p>
+
+        <div className="space-y-6">
+          {REMINDER_KINDS.map(kind => {
+            const template = templates[kind];
+
+            return (
+              <div key={kind} className="border border-gray-200 rounded-md p-4 space-y-3">
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                  <label className="flex items-center font-medium">
+                    <input
+                      type="checkbox"
+                      checked={template.active}
+                      onChange={(e) => handleTemplateChange(kind, { active: e.target.checked })}
+                      className="mr-2"
+                    />
+                    {REMINDER_KIND_LABELS[kind]}
+                  </label>
+                  {kind !== 'due_today' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      {kind === 'upcoming' ? 'Enviar até' : 'Enviar após'}
+                      <input
+                        type="number"
+                        min={kind === 'overdue' ? 1 : 0}
+                        value={template.days}
+                        onChange={(e) => handleTemplateChange(kind, { days: Math.max(parseInt(e.target.value) || 0, 0) })}
+                        className="w-20 px-3 py-1 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                      />
+                      {kind === 'upcoming' ? 'dias antes do vencimento' : 'dias de atraso'}
+                    </label>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Assunto do e-mail
+                  </label>
+                  <input
+                    type="text"
+                    value={template.subject}
+                    onChange={(e) => handleTemplateChange(kind, { subject: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Mensagem
+                  </label>
+                  <textarea
+                    value={template.body}
+                    onChange={(e) => handleTemplateChange(kind, { body: e.target.value })}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => handleSaveTemplate(kind)}
+                    disabled={savingKind === kind}
+                    className="btn-primary disabled:opacity-50"
+                  >
+                    {savingKind === kind ? 'Salvando...' : 'Salvar'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Reminders;
@@ -0,0 +1,845 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { CalendarOff, CalendarClock, Plus, Trash2, Coins, CreditCard, Users } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import Modal from '../components/Modal';
+import {
+  DAY_OF_MONTH_OVERFLOW_LABELS,
+  MunicipalHoliday,
+  NON_BUSINESS_DAY_ROLL_LABELS,
+  ScheduleRule,
+  fetchMunicipalHolidays,
+  nationalHolidays,
+} from '../lib/schedule';
+import { ClinicSettings, DEFAULT_CLINIC_SETTINGS, fetchClinicSettings, saveClinicSettings } from '../lib/settings';
+import { CARD_BRANDS, CardFeeRule, cardBrandLabel, fetchCardFeeRules } from '../lib/fees';
+import { PAYMENT_METHODS, paymentMethodLabel } from '../lib/paymentMethods';
+import { Professional, createProfessional, fetchProfessionals, setProfessionalActive } from '../lib/professionals';
+import { RESOURCE_KIND_LABELS, Resource, ResourceKind, createResource, fetchResources, setResourceActive } from '../lib/resources';
+
+const CARD_METHODS = Object.keys(PAYMENT_METHODS).filter(method => PAYMENT_METHODS[method].acquirerFees);
+
+const EMPTY_FEE_RULE_FORM = {
+  payment_method: 'credit_card',
+  brand: '',
+  installments_from: '1',
+  installments_to: '1',
+  mdr_percent: '',
+  anticipation_percent: '0',
+  settlement_days: '30',
+};
+
+const Settings = () => {
+  const [holidays, setHolidays] = useState<MunicipalHoliday[]>([]);
+  const [formData, setFormData] = useState({
+    name: '',
+    date: '',
+    recurring: true,
+  });
+  const [loading, setLoading] = useState(false);
+  const [selectedHoliday, setSelectedHoliday] = useState<MunicipalHoliday | null>(null);
+  const [settings, setSettings] = useState<ClinicSettings>(DEFAULT_CLINIC_SETTINGS);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [feeRules, setFeeRules] = useState<CardFeeRule[]>([]);
+  const [feeRuleForm, setFeeRuleForm] = useState(EMPTY_FEE_RULE_FORM);
+  const [savingFeeRule, setSavingFeeRule] = useState(false);
+  const [selectedFeeRule, setSelectedFeeRule] = useState<CardFeeRule | null>(null);
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [professionalName, setProfessionalName] = useState('');
+  const [resourceForm, setResourceForm] = useState({ name: '', kind: 'room' as ResourceKind });
+
+  useEffect(() => {
+    fetchHolidays();
+    fetchSettings();
+    fetchFeeRules();
+    fetchAgendaResources();
+  }, []);
+
+  const fetchAgendaResources = async () => {
+    try {
+      const [professionalList, resourceList] = await Promise.all([fetchProfessionals(), fetchResources()]);
+      setProfessionals(professionalList);
+      setResources(resourceList);
+    } catch (error) {
+      console.error('Error fetching agenda resources:', error);
+      toast.error('Erro ao carregar profissionais, salas e equipamentos');
+    }
+  };
+
+  const handleAddProfessional = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createProfessional(professionalName);
+      setProfessionalName('');
+      await fetchAgendaResources();
+    } catch (error) {
+      console.error('Error adding professional:', error);
+      toast.error('Erro ao adicionar profissional.');
+    }
+  };
+
+  const handleAddResource = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createResource(resourceForm.name, resourceForm.kind);
+      setResourceForm(prev => ({ ...prev, name: '' }));
+      await fetchAgendaResources();
+    } catch (error) {
+      console.error('Error adding resource:', error);
+      toast.error(`Erro ao adicionar ${RESOURCE_KIND_LABELS[resourceForm.kind].toLowerCase()}.`);
+    }
+  };
+
+  const handleToggleProfessional = async (professional: Professional) => {
+    try {
+      await setProfessionalActive(professional.id, !professional.active);
+      await fetchAgendaResources();
+    } catch (error) {
+      console.error('Error updating professional:', error);
+      toast.error('Erro ao atualizar profissional.');
+    }
+  };
+
+  const handleToggleResource = async (resource: Resource) => {
+    try {
+      await setResourceActive(resource.id, !resource.active);
+      await fetchAgendaResources();
+    } catch (error) {
+      console.error('Error updating resource:', error);
+      toast.error(`Erro ao atualizar ${RESOURCE_KIND_LABELS[resource.kind].toLowerCase()}.`);
+    }
+  };
+
+  const fetchFeeRules = async () => {
+    try {
+      setFeeRules(await fetchCardFeeRules());
+    } catch (error) {
+      console.error('Error fetching card fee rules:', error);
+      toast.error('Erro ao carregar taxas da maquininha');
+    }
+  };
+
+  const handleFeeRuleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFeeRuleForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddFeeRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const installmentsFrom = parseInt(feeRuleForm.installments_from) || 1;
+    const installmentsTo = parseInt(feeRuleForm.installments_to) || installmentsFrom;
+    if (installmentsTo < installmentsFrom) {
+      toast.error('A faixa de parcelas é inválida.');
+      return;
+    }
+
+    setSavingFeeRule(true);
+    const toastId = toast.loading('Salvando taxa...');
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('card_fee_rules')
+        .insert([{
+          payment_method: feeRuleForm.payment_method,
+          brand: feeRuleForm.brand || null,
+          installments_from: installmentsFrom,
+          installments_to: installmentsTo,
+          mdr_percent: parseFloat(feeRuleForm.mdr_percent.replace(',', '.')) || 0,
+          anticipation_percent: parseFloat(feeRuleForm.anticipation_percent.replace(',', '.')) || 0,
+          settlement_days: parseInt(feeRuleForm.settlement_days) || 0,
+          user_id: user.id,
+        }]);
+
+      if (error) throw error;
+
+      toast.success('Taxa salva com sucesso!', { id: toastId });
+      setFeeRuleForm(EMPTY_FEE_RULE_FORM);
+      await fetchFeeRules();
+    } catch (error) {
+      console.error('Error creating card fee rule:', error);
+      toast.error('Erro ao salvar taxa', { id: toastId });
+    } finally {
+      setSavingFeeRule(false);
+    }
+  };
+
+  const handleDeleteFeeRule = async () => {
+    if (!selectedFeeRule) return;
+
+    const toastId = toast.loading('Excluindo taxa...');
+    try {
+      const { error } = await supabase
+        .from('card_fee_rules')
+        .delete()
+        .eq('id', selectedFeeRule.id);
+
+      if (error) throw error;
+
+      toast.success('Taxa excluída com sucesso!', { id: toastId });
+      await fetchFeeRules();
+    } catch (error) {
+      console.error('Error deleting card fee rule:', error);
+      toast.error('Erro ao excluir taxa.', { id: toastId });
+    } finally {
+      setSelectedFeeRule(null);
+    }
+  };
+
+  const fetchSettings = async () => {
+    try {
+      setSettings(await fetchClinicSettings());
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      toast.error('Erro ao carregar configurações');
+    }
+  };
+
+  const handleSettingsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setSettings(prev => ({ ...prev, [name]: type === 'number' ? parseFloat(value) || 0 : value }));
+  };
+
+  const handleScheduleRuleChange = (method: string, field: keyof ScheduleRule, value: string) => {
+    const isOffset = field === 'firstDueOffsetMonths' || field === 'firstDueOffsetDays';
+    setSettings(prev => ({
+      ...prev,
+      schedule_rules: {
+        ...prev.schedule_rules,
+        [method]: { ...prev.schedule_rules[method], [field]: isOffset ? Math.max(parseInt(value) || 0, 0) : value },
+      },
+    }));
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSettings(true);
+
+    const toastId = toast.loading('Salvando configurações...');
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      await saveClinicSettings(user.id, settings);
+      toast.success('Configurações salvas com sucesso!', { id: toastId });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast.error('Erro ao salvar configurações', { id: toastId });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const fetchHolidays = async () => {
+    try {
+      setHolidays(await fetchMunicipalHolidays());
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+      toast.error('Erro ao carregar feriados');
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData(prev => ({ ...prev, [name]: type === 'checkbox' ? checked : value }));
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const toastId = toast.loading('Salvando feriado...');
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { error } = await supabase
+        .from('holidays')
+        .insert([{
+          name: formData.name.trim(),
+          date: formData.date,
+          recurring: formData.recurring,
+          user_id: user.id,
+        }]);
+
+      if (error) throw error;
+
+      toast.success('Feriado salvo com sucesso!', { id: toastId });
+      setFormData({ name: '', date: '', recurring: true });
+      await fetchHolidays();
+    } catch (error) {
+      console.error('Error creating holiday:', error);
+      toast.error('Erro ao salvar feriado', { id: toastId });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteHoliday = async () => {
+    if (!selectedHoliday) return;
+
+    const toastId = toast.loading('Excluindo feriado...');
+    try {
+      const { error } = await supabase
+        .from('holidays')
+        .delete()
+        .eq('id', selectedHoliday.id);
+
+      if (error) throw error;
+
+      toast.success('Feriado excluído com sucesso!', { id: toastId });
+      await fetchHolidays();
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      toast.error('Erro ao excluir feriado.', { id: toastId });
+    } finally {
+      setSelectedHoliday(null);
+    }
+  };
+
+  const currentYearNationalHolidays = Array.from(nationalHolidays(new Date().getFullYear()).entries())
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="p-6">
+      <h1 className="text-3xl font-bold mb-8">Configurações</h1>
+
+      <form onSubmit={handleSaveSettings} className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center mb-4">
+          <Coins className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Parcelamento e Atrasos</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Multa e juros são aplicados às parcelas pagas após o vencimento; os juros são proporcionais aos dias de atraso.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Centavos que sobram da divisão
+            </label>
+            <select
+              name="installment_remainder"
+              value={settings.installment_remainder}
+              onChange={handleSettingsChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              <option value="first">Somar na primeira parcela</option>
+              <option value="last">Somar na última parcela</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Multa por atraso (%)
+            </label>
+            <input
+              type="number"
+              name="late_fine_percent"
+              value={settings.late_fine_percent}
+              onChange={handleSettingsChange}
+              min="0"
+              step="0.01"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Juros ao mês (%)
+            </label>
+            <input
+              type="number"
+              name="late_interest_percent"
+              value={settings.late_interest_percent}
+              onChange={handleSettingsChange}
+              min="0"
+              step="0.01"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingSettings}
+            className="btn-primary disabled:opacity-50"
+          >
+            {savingSettings ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveSettings} className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center mb-4">
+          <CalendarClock className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Vencimentos por Forma de Pagamento</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Define quando vence a primeira parcela, contando da data do procedimento, e como ajustar datas que não existem
+          no mês ou que caem em fins de semana e feriados. Quando o 1º vencimento é informado no plano, só os ajustes valem.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Forma de pagamento</th>
+                <th className="py-2 pr-4 font-medium">1ª parcela após (meses)</th>
+                <th className="py-2 pr-4 font-medium">e (dias)</th>
+                <th className="py-2 pr-4 font-medium">Dia inexistente no mês</th>
+                <th className="py-2 font-medium">Fim de semana ou feriado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {Object.keys(settings.schedule_rules).map(method => {
+                const rule = settings.schedule_rules[method];
+                return (
+                  <tr key={method}>
+                    <td className="py-2 pr-4 font-medium">{paymentMethodLabel(method)}</td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="number"
+                        value={rule.firstDueOffsetMonths}
+                        onChange={(e) => handleScheduleRuleChange(method, 'firstDueOffsetMonths', e.target.value)}
+                        min="0"
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="number"
+                        value={rule.firstDueOffsetDays}
+                        onChange={(e) => handleScheduleRuleChange(method, 'firstDueOffsetDays', e.target.value)}
+                        min="0"
+                        className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <select
+                        value={rule.dayOfMonthOverflow}
+                        onChange={(e) => handleScheduleRuleChange(method, 'dayOfMonthOverflow', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                      >
+                        {Object.entries(DAY_OF_MONTH_OVERFLOW_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2">
+                      <select
+                        value={rule.nonBusinessDayRoll}
+                        onChange={(e) => handleScheduleRuleChange(method, 'nonBusinessDayRoll', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                      >
+                        {Object.entries(NON_BUSINESS_DAY_ROLL_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            type="submit"
+            disabled={savingSettings}
+            className="btn-primary disabled:opacity-50"
+          >
+            {savingSettings ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center mb-4">
+          <CreditCard className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Taxas da Maquininha</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Usadas para calcular o valor líquido e a data de crédito de cada parcela no cartão.
+          A regra da bandeira tem prioridade sobre a regra para todas as bandeiras; sem regra, a parcela é considerada sem taxa.
+        </p>
+
+        <form onSubmit={handleAddFeeRule} className="grid grid-cols-2 md:grid-cols-8 gap-4 items-end mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Cartão
+            </label>
+            <select
+              name="payment_method"
+              value={feeRuleForm.payment_method}
+              onChange={handleFeeRuleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              {CARD_METHODS.map(method => (
+                <option key={method} value={method}>{paymentMethodLabel(method)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Bandeira
+            </label>
+            <select
+              name="brand"
+              value={feeRuleForm.brand}
+              onChange={handleFeeRuleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            >
+              <option value="">Todas as bandeiras</option>
+              {Object.entries(CARD_BRANDS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Parcelas de
+            </label>
+            <input
+              type="number"
+              name="installments_from"
+              value={feeRuleForm.installments_from}
+              onChange={handleFeeRuleChange}
+              min="1"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              até
+            </label>
+            <input
+              type="number"
+              name="installments_to"
+              value={feeRuleForm.installments_to}
+              onChange={handleFeeRuleChange}
+              min="1"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              MDR (%)
+            </label>
+            <input
+              type="text"
+              name="mdr_percent"
+              value={feeRuleForm.mdr_percent}
+              onChange={handleFeeRuleChange}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              placeholder="Ex: 3,49"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Antecipação (% a.m.)
+            </label>
+            <input
+              type="text"
+              name="anticipation_percent"
+              value={feeRuleForm.anticipation_percent}
+              onChange={handleFeeRuleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Crédito em (dias)
+            </label>
+            <input
+              type="number"
+              name="settlement_days"
+              value={feeRuleForm.settlement_days}
+              onChange={handleFeeRuleChange}
+              min="0"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingFeeRule}
+            className="btn-primary flex items-center justify-center gap-2 disabled:opacity-50 col-span-2 md:col-span-8 md:justify-self-end"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar
+          </button>
+        </form>
+
+        <div className="divide-y">
+          {feeRules.map(rule => (
+            <div key={rule.id} className="flex justify-between items-center py-3">
+              <div>
+                <p className="font-medium">
+                  {paymentMethodLabel(rule.payment_method)} · {cardBrandLabel(rule.brand)} · {rule.installments_from === rule.installments_to
+                    ? `${rule.installments_from}x`
+                    : `${rule.installments_from}x a ${rule.installments_to}x`}
+                </p>
+                <p className="text-sm text-gray-600">
+                  MDR {Number(rule.mdr_percent).toLocaleString('pt-BR')}%
+                  {Number(rule.anticipation_percent) > 0
+                    ? ` · antecipação ${Number(rule.anticipation_percent).toLocaleString('pt-BR')}% a.m., crédito em D+${rule.settlement_days}`
+                    : ' · sem antecipação, crédito no vencimento de cada parcela'}
+                </p>
+              </div>
+              <button
+                onClick={() => setSelectedFeeRule(rule)}
+                className="p-2 text-red-600 hover:text-red-900 hover:bg-red-50 rounded-full transition-colors"
+                title="Excluir taxa"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {feeRules.length === 0 && (
+            <p className="text-gray-500 text-center py-4">Nenhuma taxa cadastrada</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <div className="flex items-center mb-4">
+          <Users className="w-6 h-6 icon-primary mr-2" />
+          <h2 className="text-xl font-semibold">Profissionais, Salas e Equipamentos</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Usados na agenda e no cálculo das comissões. Salas e equipamentos não podem ser reservados em dois horários sobrepostos.
+          Desativar mantém os agendamentos e tratamentos já registrados.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <form onSubmit={handleAddProfessional} className="flex gap-2 items-end mb-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Profissional
+                </label>
+                <input
+                  type="text"
+                  value={professionalName}
+                  onChange={(e) => setProfessionalName(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  placeholder="Ex: Dra. Maria"
+                />
+              </div>
+              <button
+                type="submit"
+                className="btn-primary flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Adicionar
+              </button>
+            </form>
+            <div className="divide-y">
+              {professionals.map(professional => (
+                <div key={professional.id} className="flex justify-between items-center py-2">
+                  <span className={professional.active ? '' : 'text-gray-400'}>{professional.name}</span>
+                  <button
+                    onClick={() => handleToggleProfessional(professional)}
+                    className="text-sm text-gray-600 hover:underline"
+                  >
+                    {professional.active ? 'Desativar' : 'Ativar'}
+                  </button>
+                </div>
+              ))}
+              {professionals.length === 0 && (
+                <p className="text-gray-500 text-center py-4">Nenhum profissional cadastrado</p>
+              )}
+            </div>
+          </div>
+          <div>
+            <form onSubmit={handleAddResource} className="flex gap-2 items-end mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tipo
+                </label>
+                <select
+                  value={resourceForm.kind}
+                  onChange={(e) => setResourceForm(prev => ({ ...prev, kind: e.target.value as ResourceKind }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                >
+                  {(Object.keys(RESOURCE_KIND_LABELS) as ResourceKind[]).map(kind => (
+                    <option key={kind} value={kind}>{RESOURCE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nome
+                </label>
+                <input
+                  type="text"
+                  value={resourceForm.name}
+                  onChange={(e) => setResourceForm(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                  placeholder={resourceForm.kind === 'room' ? 'Ex: Sala de procedimentos' : 'Ex: Laser'}
+                />
+              </div>
+              <button
+                type="submit"
+                className="btn-primary flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Adicionar
+              </button>
+            </form>
+            <div className="divide-y">
+              {resources.map(resource => (
+                <div key={resource.id} className="flex justify-between items-center py-2">
+                  <span className={resource.active ? '' : 'text-gray-400'}>
+                    {resource.name}
+                    <span className="text-sm text-gray-500"> · {RESOURCE_KIND_LABELS[resource.kind]}</span>
+                  </span>
+                  <button
+                    onClick={() => handleToggleResource(resource)}
+                    className="text-sm text-gray-600 hover:underline"
+                  >
+                    {resource.active ? 'Desativar' : 'Ativar'}
+                  </button>
+                </div>
+              ))}
+              {resources.length === 0 && (
+                <p className="text-gray-500 text-center py-4">Nenhuma sala ou equipamento cadastrado</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow p-6 lg:col-span-2">
+          <div className="flex items-center mb-4">
+            <CalendarOff className="w-6 h-6 icon-primary mr-2" />
+            <h2 className="text-xl font-semibold">Feriados Municipais</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            Vencimentos que caírem em fins de semana, feriados nacionais ou nos feriados abaixo
+            são ajustados conforme a regra de cada forma de pagamento.
+          </p>
+
+          <form onSubmit={handleAddHoliday} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nome
+              </label>
+              <input
+                type="text"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+                placeholder="Ex: Aniversário da cidade"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Data
+              </label>
+              <input
+                type="date"
+                name="date"
+                value={formData.date}
+                onChange={handleInputChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary focus:border-primary"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Adicionar
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-4">
+              <input
+                type="checkbox"
+                name="recurring"
+                checked={formData.recurring}
+                onChange={handleInputChange}
+              />
+              Repete todos os anos
+            </label>
+          </form>
+
+          <div className="divide-y">
+            {holidays.map(holiday => (
+              <div key={holiday.id} className="flex justify-between items-center py-3">
+                <div>
+                  <p className="font-medium">{holiday.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {format(parseISO(holiday.date), holiday.recurring ? 'dd/MM' : 'dd/MM/yyyy')}
+                    {holiday.recurring && ' · todo ano'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSelectedHoliday(holiday)}
+                  className="p-2 text-red-600 hover:text-red-900 hover:bg-red-50 rounded-full transition-colors"
+                  title="Excluir feriado"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {holidays.length === 0 && (
+              <p className="text-gray-500 text-center py-4">Nenhum feriado municipal cadastrado</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Feriados Nacionais {new Date().getFullYear()}</h2>
+          <div className="space-y-2 text-sm">
+            {currentYearNationalHolidays.map(([date, name]) => (
+              <div key={date} className="flex justify-between">
+                <span>{name}</span>
+                <span className="text-gray-600">{format(parseISO(date), 'dd/MM')}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <Modal
+        isOpen={selectedHoliday !== null}
+        onClose={() => setSelectedHoliday(null)}
+        onConfirm={handleDeleteHoliday}
+        title="Excluir Feriado"
+        message="Tem certeza que deseja excluir este feriado? Os vencimentos já gerados não serão alterados."
+      />
+
+      <Modal
+        isOpen={selectedFeeRule !== null}
+        onClose={() => setSelectedFeeRule(null)}
+        onConfirm={handleDeleteFeeRule}
+        title="Excluir Taxa"
+        message="Tem certeza que deseja excluir esta taxa? Os valores líquidos já calculados não serão alterados."
+      />
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,92 @@
+/*
+  Entrega os lembretes de pagamento na fila (`notifications`).
+
+  Para cada canal com remetente configurado, reserva os lembretes vencidos com
+  claim_notifications, envia um a um e registra o resultado com
+  finish_notification, que agenda as novas tentativas em caso de erro.
+
+  Variáveis de ambiente do canal de e-mail:
+    SMTP_HOST, SMTP_PORT, SMTP_FROM, SMTP_USER, SMTP_PASSWORD
+    SMTP_TLS=false para servidores sem TLS
+
+  Para testar localmente, aponte o SMTP para um mail catcher, por exemplo o
+  Mailpit (`SMTP_HOST=host.docker.internal SMTP_PORT=1025 SMTP_TLS=false`),
+  e rode `supabase functions serve send-notifications --env-file <arquivo>`.
+*/
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { NotificationSender, QueuedNotification, createSenders } from './senders.ts';
+
+const BATCH_SIZE = 20;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Sem corpo, entrega todos os canais configurados
+  const { channel } = await req.json().catch(() => ({ channel: null }));
+  const senders = createSenders().filter(sender => !channel || sender.channel === channel);
+
+  if (channel && senders.length === 0) {
+    return json({ error: `Nenhum remetente configurado para o canal ${channel}.` }, 400);
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  const deliver = async (sender: NotificationSender) => {
+    const { data, error } = await supabase.rpc('claim_notifications', {
+      p_channel: sender.channel,
+      p_limit: BATCH_SIZE,
+    });
+    if (error) throw error;
+
+    for (const notification of (data || []) as QueuedNotification[]) {
+      let sendError: string | null = null;
+      try {
+        await sender.send(notification);
+        sent += 1;
+      } catch (err) {
+        sendError = err instanceof Error ? err.message : String(err);
+        failed += 1;
+      }
+
+      const { error: finishError } = await supabase.rpc('finish_notification', {
+        p_notification_id: notification.id,
+        p_error: sendError,
+      });
+      if (finishError) throw finishError;
+    }
+  };
+
+  try {
+    for (const sender of senders) {
+      try {
+        await deliver(sender);
+      } finally {
+        await sender.close();
+      }
+    }
+  } catch (err) {
+    console.error('Error delivering notifications:', err);
+    return json({ error: err instanceof Error ? err.message : String(err), sent, failed }, 500);
+  }
+
+  return json({ sent, failed });
+});
@@ -0,0 +1,74 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// Lembrete já renderizado, como sai da fila (claim_notifications)
+export interface QueuedNotification {
+  id: string;
+  channel: string;
+  recipient: string;
+  subject: string | null;
+  body: string;
+}
+
+// Um canal de entrega automática. Para um novo canal (ex: API de WhatsApp),
+// basta implementar esta interface e registrá-lo em createSenders
+export interface NotificationSender {
+  channel: string;
+  send: (notification: QueuedNotification) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  // false para servidores locais sem TLS, como um mail catcher
+  tls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export const createSmtpSender = (config: SmtpConfig): NotificationSender => {
+  const client = new SMTPClient({
+    connection: {
+      hostname: config.hostname,
+      port: config.port,
+      tls: config.tls,
+      ...(config.username ? { auth: { username: config.username, password: config.password || '' } } : {}),
+    },
+    ...(config.tls ? {} : { debug: { allowUnsecure: true, noStartTLS: true } }),
+  });
+
+  return {
+    channel: 'email',
+    send: async (notification) => {
+      await client.send({
+        from: config.from,
+        to: notification.recipient,
+        subject: notification.subject || 'Lembrete de pagamento',
+        content: notification.body,
+      });
+    },
+    close: () => client.close(),
+  };
+};
+
+const smtpConfigFromEnv = (): SmtpConfig | null => {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+  if (!hostname || !from) return null;
+
+  return {
+    hostname,
+    port: Number(Deno.env.get('SMTP_PORT') || 587),
+    tls: Deno.env.get('SMTP_TLS') !== 'false',
+    username: Deno.env.get('SMTP_USER') || undefined,
+    password: Deno.env.get('SMTP_PASSWORD') || undefined,
+    from,
+  };
+};
+
+// Canais configurados neste ambiente; os que não estão aqui ficam na fila
+export const createSenders = (): NotificationSender[] => {
+  const smtp = smtpConfigFromEnv();
+  return smtp ? [createSmtpSender(smtp)] : [];
+};
@@ -0,0 +1,93 @@
+/*
+  # Create patients table
+
+  1. New Tables
+    - `patients`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `cpf` (text, unique per user)
+      - `phone` (text)
+      - `email` (text)
+      - `birth_date` (date)
+      - `address` (text)
+      - `notes` (text)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `patient_id` to `appointments`
+    - Deduplicate existing appointment rows into one patient per CPF, keeping
+      the most recently typed name
+    - Drop `patient_name` and `cpf` from `appointments`, which are now read
+      through `patient_id`
+
+  3. Security
+    - Enable RLS on `patients` table
+    - Add policies for authenticated users to manage their patients
+*/
+
+CREATE TABLE IF NOT EXISTS patients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  cpf text NOT NULL,
+  phone text,
+  email text,
+  birth_date date,
+  address text,
+  notes text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, cpf)
+);
+
+ALTER TABLE patients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own patients"
+  ON patients
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create patients"
+  ON patients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own patients"
+  ON patients
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- One patient per CPF: the latest name wins, the first appointment dates the record
+INSERT INTO patients (name, cpf, user_id, created_at)
+SELECT DISTINCT ON (user_id, normalized_cpf)
+  patient_name,
+  normalized_cpf,
+  user_id,
+  min(created_at) OVER (PARTITION BY user_id, normalized_cpf)
+FROM (
+  SELECT *, regexp_replace(cpf, '\D', '', 'g') AS normalized_cpf
+  FROM appointments
+) AS source
+ORDER BY user_id, normalized_cpf, created_at DESC
+ON CONFLICT (user_id, cpf) DO NOTHING;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS patient_id uuid REFERENCES patients(id);
+
+UPDATE appointments a
+SET patient_id = p.id
+FROM patients p
+WHERE p.user_id IS NOT DISTINCT FROM a.user_id
+  AND p.cpf = regexp_replace(a.cpf, '\D', '', 'g');
+
+ALTER TABLE appointments ALTER COLUMN patient_id SET NOT NULL;
+
+ALTER TABLE appointments DROP COLUMN IF EXISTS patient_name;
+ALTER TABLE appointments DROP COLUMN IF EXISTS cpf;
+
+-- Create indexes for faster searches
+CREATE INDEX IF NOT EXISTS patients_name_idx ON patients(name);
+CREATE INDEX IF NOT EXISTS patients_user_idx ON patients(user_id);
+CREATE INDEX IF NOT EXISTS appointments_patient_idx ON appointments(patient_id);
@@ -0,0 +1,108 @@
+/*
+  # Create treatments table
+
+  1. New Tables
+    - `treatments` (payment plan header)
+      - `id` (uuid, primary key)
+      - `patient_id` (uuid, foreign key)
+      - `procedure` (text)
+      - `procedure_date` (date)
+      - `total_value` (numeric)
+      - `installments` (integer)
+      - `payment_method` (text)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `treatment_id` to `appointments`, which now only holds installment rows
+    - Create one treatment per existing patient + procedure date + procedure group
+    - Drop the plan columns and `patient_id` from `appointments`; they are read
+      through `treatment_id`
+
+  3. Security
+    - Enable RLS on `treatments` table
+    - Add policies for authenticated users to manage their treatments
+    - Deleting a treatment removes its installments
+*/
+
+CREATE TABLE IF NOT EXISTS treatments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES patients(id),
+  procedure text NOT NULL,
+  procedure_date date NOT NULL,
+  total_value numeric NOT NULL,
+  installments integer NOT NULL DEFAULT 1,
+  payment_method text NOT NULL DEFAULT 'credit_card',
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE treatments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own treatments"
+  ON treatments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create treatments"
+  ON treatments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own treatments"
+  ON treatments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own treatments"
+  ON treatments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own appointments"
+  ON appointments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- One treatment per group of installments that History used to merge by key
+INSERT INTO treatments (patient_id, procedure, procedure_date, total_value, installments, payment_method, user_id, created_at)
+SELECT DISTINCT ON (user_id, patient_id, procedure_date, procedure)
+  patient_id,
+  procedure,
+  procedure_date,
+  total_value,
+  installments,
+  COALESCE(payment_method, 'credit_card'),
+  user_id,
+  created_at
+FROM appointments
+ORDER BY user_id, patient_id, procedure_date, procedure, created_at;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS treatment_id uuid REFERENCES treatments(id) ON DELETE CASCADE;
+
+UPDATE appointments a
+SET treatment_id = t.id
+FROM treatments t
+WHERE t.user_id IS NOT DISTINCT FROM a.user_id
+  AND t.patient_id = a.patient_id
+  AND t.procedure_date = a.procedure_date
+  AND t.procedure = a.procedure;
+
+ALTER TABLE appointments ALTER COLUMN treatment_id SET NOT NULL;
+
+ALTER TABLE appointments DROP COLUMN IF EXISTS patient_id;
+ALTER TABLE appointments DROP COLUMN IF EXISTS procedure;
+ALTER TABLE appointments DROP COLUMN IF EXISTS procedure_date;
+ALTER TABLE appointments DROP COLUMN IF EXISTS total_value;
+ALTER TABLE appointments DROP COLUMN IF EXISTS installments;
+ALTER TABLE appointments DROP COLUMN IF EXISTS payment_method;
+
+-- Create indexes for faster searches
+CREATE INDEX IF NOT EXISTS treatments_patient_idx ON treatments(patient_id);
+CREATE INDEX IF NOT EXISTS treatments_procedure_date_idx ON treatments(procedure_date);
+CREATE INDEX IF NOT EXISTS appointments_treatment_idx ON appointments(treatment_id);
@@ -0,0 +1,57 @@
+/*
+  # Create municipal holidays table
+
+  1. New Tables
+    - `holidays`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `date` (date)
+      - `recurring` (boolean, repeats every year on the same day and month)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Notes
+    - National holidays are computed by the installment scheduler, only the
+      clinic's municipal holidays are stored here
+
+  3. Security
+    - Enable RLS on `holidays` table
+    - Add policies for authenticated users to manage their holidays
+*/
+
+CREATE TABLE IF NOT EXISTS holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  date date NOT NULL,
+  recurring boolean NOT NULL DEFAULT true,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own holidays"
+  ON holidays
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create holidays"
+  ON holidays
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own holidays"
+  ON holidays
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own holidays"
+  ON holidays
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS holidays_user_idx ON holidays(user_id);
@@ -0,0 +1,69 @@
+/*
+  # Store money with cent precision
+
+  1. Changes
+    - Convert `treatments.total_value`, `appointments.installment_value`,
+      `expenses.amount` and `revenues.amount` to numeric(12,2)
+    - Re-split existing plans so installments add up exactly to the treatment
+      total, with the leftover cents on the first installment
+
+  2. New Tables
+    - `clinic_settings`
+      - `user_id` (uuid, primary key)
+      - `installment_remainder` (text, 'first' or 'last' installment receives
+        the leftover cents)
+      - `updated_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `clinic_settings` table
+    - Add policies for authenticated users to manage their settings
+*/
+
+ALTER TABLE treatments ALTER COLUMN total_value TYPE numeric(12,2);
+
+WITH ranked AS (
+  SELECT
+    a.id,
+    round(t.total_value * 100) AS total_cents,
+    count(*) OVER (PARTITION BY a.treatment_id) AS parts,
+    row_number() OVER (PARTITION BY a.treatment_id ORDER BY a.installment_number) AS position
+  FROM appointments a
+  JOIN treatments t ON t.id = a.treatment_id
+)
+UPDATE appointments a
+SET installment_value = (
+  floor(r.total_cents / r.parts)
+  + CASE WHEN r.position = 1 THEN r.total_cents - floor(r.total_cents / r.parts) * r.parts ELSE 0 END
+) / 100
+FROM ranked r
+WHERE r.id = a.id;
+
+ALTER TABLE appointments ALTER COLUMN installment_value TYPE numeric(12,2);
+ALTER TABLE expenses ALTER COLUMN amount TYPE numeric(12,2);
+ALTER TABLE revenues ALTER COLUMN amount TYPE numeric(12,2);
+
+CREATE TABLE IF NOT EXISTS clinic_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id),
+  installment_remainder text NOT NULL DEFAULT 'first' CHECK (installment_remainder IN ('first', 'last')),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE clinic_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+  ON clinic_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their settings"
+  ON clinic_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON clinic_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
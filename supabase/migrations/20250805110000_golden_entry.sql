@@ -0,0 +1,18 @@
+/*
+  # Add down payment (entrada) to treatments
+
+  1. Changes
+    - Add `down_payment_value` and `down_payment_method` to `treatments`
+    - Add `kind` to `appointments` to tell the entrada row (installment number 0)
+      apart from the financed installments
+    - `treatments.installments` keeps counting only the financed installments
+*/
+
+ALTER TABLE treatments ADD COLUMN IF NOT EXISTS down_payment_value numeric(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE treatments ADD COLUMN IF NOT EXISTS down_payment_method text;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'installment'
+  CHECK (kind IN ('installment', 'down_payment'));
+
+ALTER TABLE treatments ADD CONSTRAINT treatments_down_payment_check
+  CHECK (down_payment_value >= 0 AND down_payment_value <= total_value);
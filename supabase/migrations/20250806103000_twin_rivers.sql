@@ -0,0 +1,99 @@
+/*
+  # Split treatments into payment legs
+
+  1. New Tables
+    - `payment_legs`
+      - `id` (uuid, primary key)
+      - `treatment_id` (uuid, foreign key)
+      - `position` (integer, display order inside the plan)
+      - `payment_method` (text)
+      - `amount` (numeric(12,2))
+      - `installments` (integer)
+      - `first_due_date` (date, optional override of the method's first due date)
+      - `is_down_payment` (boolean, entrada paid on the procedure day)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `leg_id` to `appointments`; installment numbers now count inside the leg
+    - Move each treatment's entrada and financed part into legs
+    - Drop `payment_method`, `installments`, `down_payment_value` and
+      `down_payment_method` from `treatments` and `kind` from `appointments`
+
+  3. Security
+    - Enable RLS on `payment_legs` table
+    - Add policies for authenticated users to manage their payment legs
+    - Deleting a leg removes its installments
+*/
+
+CREATE TABLE IF NOT EXISTS payment_legs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  treatment_id uuid NOT NULL REFERENCES treatments(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  payment_method text NOT NULL,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  installments integer NOT NULL DEFAULT 1 CHECK (installments > 0),
+  first_due_date date,
+  is_down_payment boolean NOT NULL DEFAULT false,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payment_legs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payment legs"
+  ON payment_legs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create payment legs"
+  ON payment_legs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own payment legs"
+  ON payment_legs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payment legs"
+  ON payment_legs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Entrada becomes the first leg of the plan
+INSERT INTO payment_legs (treatment_id, position, payment_method, amount, installments, is_down_payment, user_id)
+SELECT id, 0, COALESCE(down_payment_method, 'pix'), down_payment_value, 1, true, user_id
+FROM treatments
+WHERE down_payment_value > 0;
+
+-- The financed remainder keeps the treatment's payment method
+INSERT INTO payment_legs (treatment_id, position, payment_method, amount, installments, is_down_payment, user_id)
+SELECT id, 1, payment_method, total_value - down_payment_value, installments, false, user_id
+FROM treatments
+WHERE total_value - down_payment_value > 0;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS leg_id uuid REFERENCES payment_legs(id) ON DELETE CASCADE;
+
+UPDATE appointments a
+SET leg_id = l.id,
+    installment_number = CASE WHEN a.kind = 'down_payment' THEN 1 ELSE a.installment_number END
+FROM payment_legs l
+WHERE l.treatment_id = a.treatment_id
+  AND l.is_down_payment = (a.kind = 'down_payment');
+
+ALTER TABLE appointments ALTER COLUMN leg_id SET NOT NULL;
+
+ALTER TABLE appointments DROP COLUMN IF EXISTS kind;
+ALTER TABLE treatments DROP CONSTRAINT IF EXISTS treatments_down_payment_check;
+ALTER TABLE treatments DROP COLUMN IF EXISTS payment_method;
+ALTER TABLE treatments DROP COLUMN IF EXISTS installments;
+ALTER TABLE treatments DROP COLUMN IF EXISTS down_payment_value;
+ALTER TABLE treatments DROP COLUMN IF EXISTS down_payment_method;
+
+CREATE INDEX IF NOT EXISTS payment_legs_treatment_idx ON payment_legs(treatment_id);
+CREATE INDEX IF NOT EXISTS appointments_leg_idx ON appointments(leg_id);
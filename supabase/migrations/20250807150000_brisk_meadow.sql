@@ -0,0 +1,78 @@
+/*
+  # Card acquirer fees and net receivables
+
+  1. New Tables
+    - `card_fee_rules`
+      - `id` (uuid, primary key)
+      - `brand` (text, null applies to every brand without its own rule)
+      - `installments_from` / `installments_to` (integer, installment range)
+      - `mdr_percent` (numeric, acquirer fee over each installment)
+      - `anticipation_percent` (numeric, monthly anticipation rate, 0 = no anticipation)
+      - `settlement_days` (integer, days after the sale for anticipated receivables)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `card_brand` to `payment_legs`
+    - Add `net_value` and `expected_settlement_date` to `appointments`;
+      existing installments are assumed fee-free and settled on their due date
+
+  3. Security
+    - Enable RLS on `card_fee_rules` table
+    - Add policies for authenticated users to manage their fee rules
+*/
+
+CREATE TABLE IF NOT EXISTS card_fee_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand text,
+  installments_from integer NOT NULL DEFAULT 1 CHECK (installments_from > 0),
+  installments_to integer NOT NULL DEFAULT 1,
+  mdr_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (mdr_percent >= 0 AND mdr_percent < 100),
+  anticipation_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (anticipation_percent >= 0 AND anticipation_percent < 100),
+  settlement_days integer NOT NULL DEFAULT 30 CHECK (settlement_days >= 0),
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (installments_to >= installments_from)
+);
+
+ALTER TABLE card_fee_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own card fee rules"
+  ON card_fee_rules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create card fee rules"
+  ON card_fee_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own card fee rules"
+  ON card_fee_rules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own card fee rules"
+  ON card_fee_rules
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE payment_legs ADD COLUMN IF NOT EXISTS card_brand text;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS net_value numeric(12,2);
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS expected_settlement_date date;
+
+UPDATE appointments
+SET net_value = installment_value,
+    expected_settlement_date = next_payment_date
+WHERE net_value IS NULL;
+
+ALTER TABLE appointments ALTER COLUMN net_value SET NOT NULL;
+ALTER TABLE appointments ALTER COLUMN expected_settlement_date SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS card_fee_rules_user_idx ON card_fee_rules(user_id);
+CREATE INDEX IF NOT EXISTS appointments_settlement_idx ON appointments(expected_settlement_date);
@@ -0,0 +1,15 @@
+/*
+  # Debit card, boleto and bank transfer payment methods
+
+  1. Changes
+    - Restrict `payment_legs.payment_method` to the supported methods:
+      credit_card, debit_card, pix, cash, boleto and bank_transfer
+    - Add `payment_method` to `card_fee_rules` so debit and credit cards
+      can have different acquirer fees; existing rules are credit card rules
+*/
+
+ALTER TABLE payment_legs ADD CONSTRAINT payment_legs_payment_method_check
+  CHECK (payment_method IN ('credit_card', 'debit_card', 'pix', 'cash', 'boleto', 'bank_transfer'));
+
+ALTER TABLE card_fee_rules ADD COLUMN IF NOT EXISTS payment_method text NOT NULL DEFAULT 'credit_card'
+  CHECK (payment_method IN ('credit_card', 'debit_card'));
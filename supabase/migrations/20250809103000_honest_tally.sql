@@ -0,0 +1,60 @@
+/*
+  # Payments ledger
+
+  1. New Tables
+    - `payments`
+      - `id` (uuid, primary key)
+      - `appointment_id` (uuid, foreign key, the installment being paid)
+      - `paid_at` (date, when the patient actually paid)
+      - `amount` (numeric(12,2), amount received)
+      - `payment_method` (text, method actually used)
+      - `registered_by` (uuid, user who registered the payment)
+      - `registered_by_email` (text, shown in the history)
+      - `note` (text, optional)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Installments already marked as paid get a payment dated on their due date
+
+  3. Security
+    - Enable RLS on `payments` table
+    - Payments can be viewed and registered, but not edited or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  paid_at date NOT NULL,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  payment_method text NOT NULL
+    CHECK (payment_method IN ('credit_card', 'debit_card', 'pix', 'cash', 'boleto', 'bank_transfer')),
+  registered_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  registered_by_email text,
+  note text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create payments"
+  ON payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+INSERT INTO payments (appointment_id, paid_at, amount, payment_method, registered_by, note, user_id)
+SELECT a.id, a.next_payment_date, a.installment_value, l.payment_method, a.user_id, 'Baixa anterior ao registro de pagamentos', a.user_id
+FROM appointments a
+JOIN payment_legs l ON l.id = a.leg_id
+WHERE a.status = 'paid';
+
+CREATE INDEX IF NOT EXISTS payments_appointment_idx ON payments(appointment_id);
+CREATE INDEX IF NOT EXISTS payments_paid_at_idx ON payments(paid_at);
@@ -0,0 +1,52 @@
+/*
+  # Partial payments on an installment
+
+  1. Changes
+    - Add `amount_paid` to `appointments`, kept in sync with the payments ledger
+    - An installment only becomes 'paid' once its payments cover the full value;
+      if the payments stop covering it, it goes back to 'pending'
+
+  2. Functions
+    - `sync_appointment_amount_paid()` trigger on `payments`
+*/
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS amount_paid numeric(12,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION sync_appointment_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_id uuid := COALESCE(NEW.appointment_id, OLD.appointment_id);
+  total_paid numeric(12,2);
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO total_paid
+  FROM payments
+  WHERE appointment_id = target_id;
+
+  UPDATE appointments
+  SET amount_paid = total_paid,
+      status = CASE
+        WHEN total_paid >= installment_value THEN 'paid'
+        WHEN status = 'paid' THEN 'pending'
+        ELSE status
+      END
+  WHERE id = target_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER payments_sync_amount_paid
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_appointment_amount_paid();
+
+UPDATE appointments a
+SET amount_paid = p.total
+FROM (
+  SELECT appointment_id, SUM(amount) AS total
+  FROM payments
+  GROUP BY appointment_id
+) p
+WHERE p.appointment_id = a.id;
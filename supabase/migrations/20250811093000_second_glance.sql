@@ -0,0 +1,95 @@
+/*
+  # Payment reversals
+
+  1. New Tables
+    - `payment_reversals`
+      - `id` (uuid, primary key)
+      - `payment_id` (uuid, foreign key, unique: a payment is reversed at most once)
+      - `reason` (text, required)
+      - `reversed_by` (uuid, user who reversed the payment)
+      - `reversed_by_email` (text, shown in the history)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Reversed payments stay in `payments` but no longer count towards
+      `appointments.amount_paid`; the installment goes back to 'pending'
+
+  3. Security
+    - Enable RLS on `payment_reversals` table
+    - Reversals can be viewed and registered, but not edited or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS payment_reversals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  reversed_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  reversed_by_email text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payment_reversals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payment reversals"
+  ON payment_reversals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create payment reversals"
+  ON payment_reversals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION refresh_appointment_amount_paid(target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  total_paid numeric(12,2);
+BEGIN
+  SELECT COALESCE(SUM(p.amount), 0) INTO total_paid
+  FROM payments p
+  WHERE p.appointment_id = target_id
+    AND NOT EXISTS (SELECT 1 FROM payment_reversals r WHERE r.payment_id = p.id);
+
+  UPDATE appointments
+  SET amount_paid = total_paid,
+      status = CASE
+        WHEN total_paid >= installment_value THEN 'paid'
+        WHEN status = 'paid' THEN 'pending'
+        ELSE status
+      END
+  WHERE id = target_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_appointment_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_appointment_amount_paid(COALESCE(NEW.appointment_id, OLD.appointment_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_reversed_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_appointment_amount_paid(
+    (SELECT appointment_id FROM payments WHERE id = COALESCE(NEW.payment_id, OLD.payment_id))
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER payment_reversals_sync_amount_paid
+  AFTER INSERT OR DELETE ON payment_reversals
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_reversed_payment();
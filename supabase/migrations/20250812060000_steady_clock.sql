@@ -0,0 +1,83 @@
+/*
+  # Server-maintained overdue status
+
+  1. Changes
+    - Add `overdue_since` to `appointments`: the first day the installment was late
+      (the day after its due date). It is kept after the installment is paid so
+      reports can tell late payments apart
+    - Open installments past their due date (São Paulo time) become 'overdue';
+      overdue installments whose due date moves to the future go back to 'pending'
+
+  2. Functions
+    - `apply_overdue_status()` trigger keeps rows consistent on every insert/update
+    - `refresh_overdue_installments()` flips the installments that became late
+      since the last run; scheduled daily with pg_cron right after midnight
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+ALTER TABLE appointments ADD COLUMN IF NOT EXISTS overdue_since date;
+
+CREATE OR REPLACE FUNCTION clinic_today()
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (now() AT TIME ZONE 'America/Sao_Paulo')::date;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_overdue_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('pending', 'overdue') THEN
+    IF NEW.next_payment_date < clinic_today() THEN
+      NEW.status := 'overdue';
+      NEW.overdue_since := NEW.next_payment_date + 1;
+    ELSE
+      NEW.status := 'pending';
+      NEW.overdue_since := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER appointments_apply_overdue_status
+  BEFORE INSERT OR UPDATE OF status, next_payment_date ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_overdue_status();
+
+CREATE OR REPLACE FUNCTION refresh_overdue_installments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  UPDATE appointments
+  SET status = 'overdue',
+      overdue_since = next_payment_date + 1
+  WHERE status = 'pending'
+    AND next_payment_date < clinic_today();
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_overdue_installments() FROM PUBLIC, anon, authenticated;
+
+-- 03:05 UTC = 00:05 em São Paulo
+SELECT cron.schedule(
+  'refresh-overdue-installments',
+  '5 3 * * *',
+  'SELECT refresh_overdue_installments()'
+);
+
+-- Installments already late when this migration runs
+SELECT refresh_overdue_installments();
@@ -0,0 +1,20 @@
+/*
+  # Late fees and interest on overdue installments
+
+  1. Changes
+    - `clinic_settings`
+      - `late_fine_percent` (numeric, one-off fine on the late principal, default 2%)
+      - `late_interest_percent` (numeric, monthly interest charged pro rata per
+        day late, default 1%)
+    - `payments`
+      - `fine_amount` and `interest_amount` (numeric(12,2)): charges received on
+        top of `amount`, which stays the principal applied to the installment
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS late_fine_percent numeric(5,2) NOT NULL DEFAULT 2 CHECK (late_fine_percent >= 0),
+  ADD COLUMN IF NOT EXISTS late_interest_percent numeric(5,2) NOT NULL DEFAULT 1 CHECK (late_interest_percent >= 0);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS fine_amount numeric(12,2) NOT NULL DEFAULT 0 CHECK (fine_amount >= 0),
+  ADD COLUMN IF NOT EXISTS interest_amount numeric(12,2) NOT NULL DEFAULT 0 CHECK (interest_amount >= 0);
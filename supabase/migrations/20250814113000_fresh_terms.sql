@@ -0,0 +1,64 @@
+/*
+  # Debt renegotiation
+
+  1. New Tables
+    - `renegotiations`
+      - `id` (uuid, primary key)
+      - `treatment_id` (uuid, foreign key)
+      - `principal_amount` (numeric(12,2), open balance of the replaced installments)
+      - `charges_amount` (numeric(12,2), late fine and interest added to the deal)
+      - `discount_amount` (numeric(12,2), discount granted)
+      - `total_amount` (numeric(12,2), amount of the new schedule)
+      - `note` (text)
+      - `created_by` (uuid) and `created_by_email` (text)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `appointments.renegotiation_id`: the renegotiation that replaced the
+      installment; replaced installments keep their payments and get the
+      'renegotiated' status instead of being deleted
+    - `payment_legs.renegotiation_id`: the renegotiation that created the leg
+
+  3. Security
+    - Enable RLS on `renegotiations` table
+    - Add policies for authenticated users to view and create renegotiations
+*/
+
+CREATE TABLE IF NOT EXISTS renegotiations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  treatment_id uuid NOT NULL REFERENCES treatments(id) ON DELETE CASCADE,
+  principal_amount numeric(12,2) NOT NULL CHECK (principal_amount > 0),
+  charges_amount numeric(12,2) NOT NULL DEFAULT 0 CHECK (charges_amount >= 0),
+  discount_amount numeric(12,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  total_amount numeric(12,2) NOT NULL CHECK (total_amount > 0),
+  note text,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_email text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE renegotiations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own renegotiations"
+  ON renegotiations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create renegotiations"
+  ON renegotiations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS renegotiation_id uuid REFERENCES renegotiations(id) ON DELETE SET NULL;
+
+ALTER TABLE payment_legs
+  ADD COLUMN IF NOT EXISTS renegotiation_id uuid REFERENCES renegotiations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS renegotiations_treatment_id_idx ON renegotiations(treatment_id);
+CREATE INDEX IF NOT EXISTS appointments_renegotiation_id_idx ON appointments(renegotiation_id);
+CREATE INDEX IF NOT EXISTS payment_legs_renegotiation_id_idx ON payment_legs(renegotiation_id);
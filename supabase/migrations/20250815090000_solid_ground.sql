@@ -0,0 +1,343 @@
+/*
+  # Atomic payment plan functions
+
+  1. New Functions
+    - `insert_plan_legs(treatment, legs, first_position, renegotiation)`: inserts
+      payment legs, their installments and the payments received on the spot;
+      validates every leg and returns the planned total
+    - `create_treatment_plan(...)`: creates a treatment with its plan
+    - `update_treatment_plan(...)`: rewrites the open part of a plan; installments
+      with money received are kept and count towards the new total
+    - `cancel_treatment_plan(treatment)`: removes a treatment and its plan
+    - `renegotiate_installments(...)`: replaces open installments with a new plan
+
+  2. Notes
+    - Each function runs in a single transaction: a failed insert rolls back
+      the whole change, so a plan is never left half written
+    - Due dates, amounts and receivables are still calculated by the app (they
+      depend on the holiday calendar and card fee rules) and sent as `legs`:
+      [{ payment_method, card_brand, amount, first_due_date, is_down_payment,
+         initial_status, installments: [{ due_date, amount, net_amount, settlement_date }] }]
+    - Functions run with the caller's permissions, so RLS still applies
+*/
+
+CREATE OR REPLACE FUNCTION insert_plan_legs(
+  p_treatment_id uuid,
+  p_legs jsonb,
+  p_first_position integer DEFAULT 0,
+  p_renegotiation_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  leg jsonb;
+  item jsonb;
+  leg_position integer := p_first_position;
+  leg_amount numeric(12,2);
+  leg_sum numeric(12,2);
+  planned_total numeric(12,2) := 0;
+  installment_number integer;
+  new_leg_id uuid;
+  new_installment_id uuid;
+BEGIN
+  IF p_legs IS NULL OR jsonb_typeof(p_legs) <> 'array' OR jsonb_array_length(p_legs) = 0 THEN
+    RAISE EXCEPTION 'Informe ao menos uma forma de pagamento.';
+  END IF;
+
+  FOR leg IN SELECT value FROM jsonb_array_elements(p_legs) LOOP
+    leg_amount := (leg ->> 'amount')::numeric(12,2);
+
+    IF leg_amount IS NULL OR leg_amount <= 0 THEN
+      RAISE EXCEPTION 'Cada forma de pagamento deve ter um valor maior que zero.';
+    END IF;
+    IF jsonb_typeof(leg -> 'installments') <> 'array' OR jsonb_array_length(leg -> 'installments') = 0 THEN
+      RAISE EXCEPTION 'Cada forma de pagamento deve ter ao menos uma parcela.';
+    END IF;
+    IF COALESCE(leg ->> 'initial_status', '') NOT IN ('paid', 'pending') THEN
+      RAISE EXCEPTION 'Status inicial inválido: %', leg ->> 'initial_status';
+    END IF;
+
+    SELECT COALESCE(SUM((value ->> 'amount')::numeric(12,2)), 0) INTO leg_sum
+    FROM jsonb_array_elements(leg -> 'installments');
+
+    IF leg_sum <> leg_amount THEN
+      RAISE EXCEPTION 'As parcelas (%) não fecham com o valor da forma de pagamento (%).', leg_sum, leg_amount;
+    END IF;
+
+    INSERT INTO payment_legs (
+      treatment_id, position, renegotiation_id, payment_method, card_brand,
+      amount, installments, first_due_date, is_down_payment, user_id
+    )
+    VALUES (
+      p_treatment_id,
+      leg_position,
+      p_renegotiation_id,
+      leg ->> 'payment_method',
+      NULLIF(leg ->> 'card_brand', ''),
+      leg_amount,
+      jsonb_array_length(leg -> 'installments'),
+      (leg ->> 'first_due_date')::date,
+      COALESCE((leg ->> 'is_down_payment')::boolean, false),
+      auth.uid()
+    )
+    RETURNING id INTO new_leg_id;
+
+    installment_number := 0;
+    FOR item IN SELECT value FROM jsonb_array_elements(leg -> 'installments') LOOP
+      installment_number := installment_number + 1;
+
+      IF (item ->> 'amount')::numeric(12,2) <= 0 OR (item ->> 'due_date') IS NULL THEN
+        RAISE EXCEPTION 'Cada parcela precisa de valor e vencimento.';
+      END IF;
+
+      INSERT INTO appointments (
+        treatment_id, leg_id, installment_number, installment_value, net_value,
+        next_payment_date, expected_settlement_date, status, user_id
+      )
+      VALUES (
+        p_treatment_id,
+        new_leg_id,
+        installment_number,
+        (item ->> 'amount')::numeric(12,2),
+        COALESCE((item ->> 'net_amount')::numeric(12,2), (item ->> 'amount')::numeric(12,2)),
+        (item ->> 'due_date')::date,
+        COALESCE((item ->> 'settlement_date')::date, (item ->> 'due_date')::date),
+        leg ->> 'initial_status',
+        auth.uid()
+      )
+      RETURNING id INTO new_installment_id;
+
+      -- Parcelas quitadas no ato já entram no livro de pagamentos
+      IF leg ->> 'initial_status' = 'paid' THEN
+        INSERT INTO payments (
+          appointment_id, paid_at, amount, payment_method,
+          registered_by, registered_by_email, note, user_id
+        )
+        VALUES (
+          new_installment_id,
+          (item ->> 'due_date')::date,
+          (item ->> 'amount')::numeric(12,2),
+          leg ->> 'payment_method',
+          auth.uid(),
+          auth.jwt() ->> 'email',
+          'Recebido no ato',
+          auth.uid()
+        );
+      END IF;
+    END LOOP;
+
+    planned_total := planned_total + leg_amount;
+    leg_position := leg_position + 1;
+  END LOOP;
+
+  RETURN planned_total;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_treatment_plan(
+  p_patient_id uuid,
+  p_procedure text,
+  p_procedure_date date,
+  p_total_value numeric,
+  p_legs jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_treatment_id uuid;
+  planned_total numeric(12,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado.';
+  END IF;
+  IF COALESCE(trim(p_procedure), '') = '' OR p_procedure_date IS NULL THEN
+    RAISE EXCEPTION 'Informe o procedimento e a data.';
+  END IF;
+  IF p_total_value IS NULL OR p_total_value <= 0 THEN
+    RAISE EXCEPTION 'Informe o valor total do procedimento.';
+  END IF;
+
+  INSERT INTO treatments (patient_id, procedure, procedure_date, total_value, user_id)
+  VALUES (p_patient_id, trim(p_procedure), p_procedure_date, p_total_value, auth.uid())
+  RETURNING id INTO new_treatment_id;
+
+  planned_total := insert_plan_legs(new_treatment_id, p_legs);
+
+  IF planned_total <> p_total_value THEN
+    RAISE EXCEPTION 'A soma das formas de pagamento (%) não fecha com o valor total (%).', planned_total, p_total_value;
+  END IF;
+
+  RETURN new_treatment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_treatment_plan(
+  p_treatment_id uuid,
+  p_procedure text,
+  p_total_value numeric,
+  p_legs jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  settled_total numeric(12,2);
+  planned_total numeric(12,2);
+  next_position integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM treatments WHERE id = p_treatment_id) THEN
+    RAISE EXCEPTION 'Tratamento não encontrado.';
+  END IF;
+  IF EXISTS (SELECT 1 FROM renegotiations WHERE treatment_id = p_treatment_id) THEN
+    RAISE EXCEPTION 'Planos renegociados só podem ser alterados por uma nova renegociação.';
+  END IF;
+  IF COALESCE(trim(p_procedure), '') = '' THEN
+    RAISE EXCEPTION 'Informe o procedimento.';
+  END IF;
+  IF p_total_value IS NULL OR p_total_value <= 0 THEN
+    RAISE EXCEPTION 'Informe o valor total do procedimento.';
+  END IF;
+
+  -- Parcelas com dinheiro recebido ficam como estão
+  DELETE FROM appointments
+  WHERE treatment_id = p_treatment_id
+    AND status <> 'paid'
+    AND amount_paid = 0;
+
+  DELETE FROM payment_legs l
+  WHERE l.treatment_id = p_treatment_id
+    AND NOT EXISTS (SELECT 1 FROM appointments a WHERE a.leg_id = l.id);
+
+  -- Formas de pagamento antigas passam a descrever só as parcelas mantidas
+  UPDATE payment_legs l
+  SET amount = kept.total,
+      installments = kept.last_number
+  FROM (
+    SELECT leg_id, SUM(installment_value) AS total, MAX(installment_number) AS last_number
+    FROM appointments
+    WHERE treatment_id = p_treatment_id
+    GROUP BY leg_id
+  ) kept
+  WHERE kept.leg_id = l.id;
+
+  SELECT COALESCE(SUM(installment_value), 0) INTO settled_total
+  FROM appointments
+  WHERE treatment_id = p_treatment_id;
+
+  SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+  FROM payment_legs
+  WHERE treatment_id = p_treatment_id;
+
+  planned_total := insert_plan_legs(p_treatment_id, p_legs, next_position);
+
+  IF settled_total + planned_total <> p_total_value THEN
+    RAISE EXCEPTION 'Parcelas pagas (%) e novo plano (%) não fecham com o valor total (%).',
+      settled_total, planned_total, p_total_value;
+  END IF;
+
+  UPDATE treatments
+  SET procedure = trim(p_procedure),
+      total_value = p_total_value
+  WHERE id = p_treatment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_treatment_plan(p_treatment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Formas de pagamento, parcelas e pagamentos saem junto (ON DELETE CASCADE)
+  DELETE FROM treatments WHERE id = p_treatment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tratamento não encontrado.';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION renegotiate_installments(
+  p_treatment_id uuid,
+  p_installment_ids uuid[],
+  p_charges numeric,
+  p_discount numeric,
+  p_legs jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  principal numeric(12,2);
+  selected_count integer;
+  new_renegotiation_id uuid;
+  next_position integer;
+  planned_total numeric(12,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+  IF COALESCE(array_length(p_installment_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Selecione ao menos uma parcela para renegociar.';
+  END IF;
+  IF COALESCE(p_charges, 0) < 0 OR COALESCE(p_discount, 0) < 0 THEN
+    RAISE EXCEPTION 'Encargos e desconto não podem ser negativos.';
+  END IF;
+
+  -- Trava as parcelas para um pagamento simultâneo não mudar o saldo
+  PERFORM 1 FROM appointments WHERE id = ANY(p_installment_ids) FOR UPDATE;
+
+  SELECT COUNT(*), COALESCE(SUM(installment_value - amount_paid), 0) INTO selected_count, principal
+  FROM appointments
+  WHERE id = ANY(p_installment_ids)
+    AND treatment_id = p_treatment_id
+    AND status IN ('pending', 'overdue');
+
+  IF selected_count <> array_length(p_installment_ids, 1) THEN
+    RAISE EXCEPTION 'Só parcelas em aberto do tratamento podem ser renegociadas.';
+  END IF;
+
+  INSERT INTO renegotiations (
+    treatment_id, principal_amount, charges_amount, discount_amount, total_amount,
+    note, created_by, created_by_email, user_id
+  )
+  VALUES (
+    p_treatment_id,
+    principal,
+    COALESCE(p_charges, 0),
+    COALESCE(p_discount, 0),
+    principal + COALESCE(p_charges, 0) - COALESCE(p_discount, 0),
+    NULLIF(trim(p_note), ''),
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    auth.uid()
+  )
+  RETURNING id INTO new_renegotiation_id;
+
+  SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+  FROM payment_legs
+  WHERE treatment_id = p_treatment_id;
+
+  planned_total := insert_plan_legs(p_treatment_id, p_legs, next_position, new_renegotiation_id);
+
+  IF planned_total <> principal + COALESCE(p_charges, 0) - COALESCE(p_discount, 0) THEN
+    RAISE EXCEPTION 'O novo plano (%) não fecha com o valor renegociado (%).',
+      planned_total, principal + COALESCE(p_charges, 0) - COALESCE(p_discount, 0);
+  END IF;
+
+  UPDATE appointments
+  SET status = 'renegotiated',
+      renegotiation_id = new_renegotiation_id
+  WHERE id = ANY(p_installment_ids);
+
+  RETURN new_renegotiation_id;
+END;
+$$;
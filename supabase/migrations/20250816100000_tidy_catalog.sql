@@ -0,0 +1,105 @@
+/*
+  # Procedure catalog
+
+  1. New Tables
+    - `procedures`
+      - `id` (uuid, primary key)
+      - `name` (text, unique per user, case-insensitive)
+      - `category` (text, optional)
+      - `default_price` (numeric(12,2), suggested total for new treatments)
+      - `typical_sessions` (integer)
+      - `active` (boolean, inactive entries stay linked but are not offered)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `procedure_id` to `treatments`. It is filled automatically when the
+      treatment's procedure text matches a catalog name, so mapping an old
+      free-text value means renaming it to the catalog entry
+
+  3. Security
+    - Enable RLS on `procedures` table
+    - Add policies for authenticated users to manage their procedures
+*/
+
+CREATE TABLE IF NOT EXISTS procedures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  category text,
+  default_price numeric(12,2) NOT NULL DEFAULT 0 CHECK (default_price >= 0),
+  typical_sessions integer NOT NULL DEFAULT 1 CHECK (typical_sessions > 0),
+  active boolean NOT NULL DEFAULT true,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS procedures_user_name_idx ON procedures(user_id, lower(name));
+
+ALTER TABLE procedures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own procedures"
+  ON procedures
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create procedures"
+  ON procedures
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own procedures"
+  ON procedures
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE treatments
+  ADD COLUMN IF NOT EXISTS procedure_id uuid REFERENCES procedures(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION match_treatment_procedure()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.procedure_id IS NULL OR NEW.procedure IS DISTINCT FROM OLD.procedure THEN
+    NEW.procedure_id := (
+      SELECT p.id
+      FROM procedures p
+      WHERE p.user_id = NEW.user_id
+        AND lower(p.name) = lower(trim(NEW.procedure))
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER treatments_match_procedure
+  BEFORE INSERT OR UPDATE OF procedure ON treatments
+  FOR EACH ROW
+  EXECUTE FUNCTION match_treatment_procedure();
+
+-- Renaming a catalog entry keeps its linked treatments in sync
+CREATE OR REPLACE FUNCTION sync_procedure_name()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE treatments
+  SET procedure = NEW.name
+  WHERE procedure_id = NEW.id
+    AND procedure IS DISTINCT FROM NEW.name;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER procedures_sync_name
+  AFTER UPDATE OF name ON procedures
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_procedure_name();
+
+CREATE INDEX IF NOT EXISTS treatments_procedure_id_idx ON treatments(procedure_id);
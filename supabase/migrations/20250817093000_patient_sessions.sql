@@ -0,0 +1,58 @@
+/*
+  # Multi-session packages
+
+  1. Changes
+    - `treatments`
+      - `sessions_purchased` (integer, null when the treatment is not a package)
+      - `package_valid_until` (date, optional deadline to use the sessions)
+
+  2. New Tables
+    - `treatment_sessions`
+      - `id` (uuid, primary key)
+      - `treatment_id` (uuid, foreign key)
+      - `performed_at` (date)
+      - `professional` (text, who performed the session)
+      - `notes` (text)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `treatment_sessions` table
+    - Add policies for authenticated users to manage their sessions
+*/
+
+ALTER TABLE treatments
+  ADD COLUMN IF NOT EXISTS sessions_purchased integer CHECK (sessions_purchased > 0),
+  ADD COLUMN IF NOT EXISTS package_valid_until date;
+
+CREATE TABLE IF NOT EXISTS treatment_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  treatment_id uuid NOT NULL REFERENCES treatments(id) ON DELETE CASCADE,
+  performed_at date NOT NULL,
+  professional text,
+  notes text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE treatment_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own treatment sessions"
+  ON treatment_sessions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create treatment sessions"
+  ON treatment_sessions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own treatment sessions"
+  ON treatment_sessions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS treatment_sessions_treatment_id_idx ON treatment_sessions(treatment_id);
@@ -0,0 +1,130 @@
+/*
+  # Agenda with time slots
+
+  1. New Tables
+    - `professionals`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `active` (boolean, inactive professionals keep their bookings but are not offered)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+    - `rooms`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `active` (boolean)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+    - `bookings`
+      - `id` (uuid, primary key)
+      - `patient_id` (uuid, optional; new patients are booked by name only)
+      - `patient_name` (text)
+      - `procedure` (text)
+      - `professional_id` (uuid, optional)
+      - `room_id` (uuid, optional)
+      - `starts_at` / `ends_at` (timestamptz)
+      - `status` (scheduled, done or cancelled)
+      - `treatment_id` (uuid, the payment plan created from the booking)
+      - `notes` (text)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on the new tables
+    - Add policies for authenticated users to manage their own rows. Bookings
+      are cancelled through `status` instead of deleted
+*/
+
+CREATE TABLE IF NOT EXISTS professionals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  active boolean NOT NULL DEFAULT true,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS rooms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  active boolean NOT NULL DEFAULT true,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid REFERENCES patients(id) ON DELETE SET NULL,
+  patient_name text NOT NULL CHECK (length(trim(patient_name)) > 0),
+  procedure text,
+  professional_id uuid REFERENCES professionals(id) ON DELETE SET NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE SET NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'done', 'cancelled')),
+  treatment_id uuid REFERENCES treatments(id) ON DELETE SET NULL,
+  notes text,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE professionals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own professionals"
+  ON professionals
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create professionals"
+  ON professionals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own professionals"
+  ON professionals
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own rooms"
+  ON rooms
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create rooms"
+  ON rooms
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own rooms"
+  ON rooms
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create bookings"
+  ON bookings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bookings"
+  ON bookings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS bookings_starts_at_idx ON bookings(starts_at);
+CREATE INDEX IF NOT EXISTS bookings_professional_id_idx ON bookings(professional_id);
+CREATE INDEX IF NOT EXISTS bookings_room_id_idx ON bookings(room_id);
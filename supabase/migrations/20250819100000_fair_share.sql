@@ -0,0 +1,136 @@
+/*
+  # Professionals and commissions
+
+  1. New Tables
+    - `commission_rules`
+      - `id` (uuid, primary key)
+      - `professional_id` (uuid, foreign key)
+      - `procedure_id` (uuid, optional; null applies to every procedure without a specific rule)
+      - `percent` (numeric(5,2))
+      - `base` (gross: amount received; net: amount received minus card fees)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `professionals.expense_category_id`: cash-flow category used for the
+      professional's commission expenses (e.g. "Fisioterapeuta")
+    - `treatments.professional_id`: professional responsible for the plan;
+      commissions are calculated on the payments received for it
+    - `treatment_sessions.professional_id`: who performed the session. The
+      free-text `professional` column is kept for sessions recorded before
+    - `expenses.professional_id` and `expenses.commission_month`: link a
+      generated commission expense to its professional and month, so the same
+      month cannot be generated twice
+    - `create_treatment_plan` accepts the plan's professional
+
+  3. Security
+    - Enable RLS on `commission_rules` table
+    - Add policies for authenticated users to manage their rules
+*/
+
+ALTER TABLE professionals
+  ADD COLUMN IF NOT EXISTS expense_category_id uuid REFERENCES expense_categories(id) ON DELETE SET NULL;
+
+ALTER TABLE treatments
+  ADD COLUMN IF NOT EXISTS professional_id uuid REFERENCES professionals(id) ON DELETE SET NULL;
+
+ALTER TABLE treatment_sessions
+  ADD COLUMN IF NOT EXISTS professional_id uuid REFERENCES professionals(id) ON DELETE SET NULL;
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS professional_id uuid REFERENCES professionals(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS commission_month date;
+
+CREATE TABLE IF NOT EXISTS commission_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id uuid NOT NULL REFERENCES professionals(id) ON DELETE CASCADE,
+  procedure_id uuid REFERENCES procedures(id) ON DELETE CASCADE,
+  percent numeric(5,2) NOT NULL CHECK (percent >= 0 AND percent <= 100),
+  base text NOT NULL DEFAULT 'gross' CHECK (base IN ('gross', 'net')),
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Uma regra por profissional e procedimento, e uma regra geral por profissional
+CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_procedure_idx
+  ON commission_rules(professional_id, procedure_id) WHERE procedure_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_default_idx
+  ON commission_rules(professional_id) WHERE procedure_id IS NULL;
+
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own commission rules"
+  ON commission_rules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create commission rules"
+  ON commission_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own commission rules"
+  ON commission_rules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own commission rules"
+  ON commission_rules
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP FUNCTION IF EXISTS create_treatment_plan(uuid, text, date, numeric, jsonb);
+
+CREATE OR REPLACE FUNCTION create_treatment_plan(
+  p_patient_id uuid,
+  p_procedure text,
+  p_procedure_date date,
+  p_total_value numeric,
+  p_legs jsonb,
+  p_professional_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_treatment_id uuid;
+  planned_total numeric(12,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado.';
+  END IF;
+  IF COALESCE(trim(p_procedure), '') = '' OR p_procedure_date IS NULL THEN
+    RAISE EXCEPTION 'Informe o procedimento e a data.';
+  END IF;
+  IF p_total_value IS NULL OR p_total_value <= 0 THEN
+    RAISE EXCEPTION 'Informe o valor total do procedimento.';
+  END IF;
+  IF p_professional_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM professionals WHERE id = p_professional_id) THEN
+    RAISE EXCEPTION 'Profissional não encontrado.';
+  END IF;
+
+  INSERT INTO treatments (patient_id, procedure, procedure_date, total_value, professional_id, user_id)
+  VALUES (p_patient_id, trim(p_procedure), p_procedure_date, p_total_value, p_professional_id, auth.uid())
+  RETURNING id INTO new_treatment_id;
+
+  planned_total := insert_plan_legs(new_treatment_id, p_legs);
+
+  IF planned_total <> p_total_value THEN
+    RAISE EXCEPTION 'A soma das formas de pagamento (%) não fecha com o valor total (%).', planned_total, p_total_value;
+  END IF;
+
+  RETURN new_treatment_id;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS expenses_commission_month_idx
+  ON expenses(professional_id, commission_month) WHERE commission_month IS NOT NULL;
+CREATE INDEX IF NOT EXISTS commission_rules_professional_id_idx ON commission_rules(professional_id);
+CREATE INDEX IF NOT EXISTS treatments_professional_id_idx ON treatments(professional_id);
@@ -0,0 +1,206 @@
+/*
+  # Rooms and equipment as bookable resources
+
+  1. Changes
+    - `rooms` becomes `resources`, with `kind` (room or equipment). Bookings
+      keep a single room in `room_id`
+    - New table `booking_equipment` (booking_id, resource_id): equipment
+      reserved by a booking, such as the laser
+
+  2. Overlap validation
+    - A room cannot be in two bookings at the same time: exclusion constraint
+      on `bookings` ignoring cancelled bookings. Existing overlaps are resolved
+      first: the oldest booking keeps the room and the others are left without
+      a room, with a note explaining why
+    - The same rule for equipment is checked by triggers on `booking_equipment`
+      and on changes to a booking's time or status. An advisory lock per
+      resource serializes concurrent bookings of the same equipment
+    - `save_booking(...)` writes a booking and its equipment in one transaction,
+      so a conflicting equipment never leaves a half-saved booking
+
+  3. Security
+    - Enable RLS on `booking_equipment` table
+    - Add policies for authenticated users to manage their booking equipment
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE rooms RENAME TO resources;
+
+ALTER POLICY "Users can view their own rooms" ON resources RENAME TO "Users can view their own resources";
+ALTER POLICY "Users can create rooms" ON resources RENAME TO "Users can create resources";
+ALTER POLICY "Users can update their own rooms" ON resources RENAME TO "Users can update their own resources";
+
+ALTER TABLE resources
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'room' CHECK (kind IN ('room', 'equipment'));
+
+CREATE TABLE IF NOT EXISTS booking_equipment (
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  resource_id uuid NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id),
+  PRIMARY KEY (booking_id, resource_id)
+);
+
+ALTER TABLE booking_equipment ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking equipment"
+  ON booking_equipment
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create booking equipment"
+  ON booking_equipment
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own booking equipment"
+  ON booking_equipment
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Agendamentos antigos podem já estar sobrepostos na mesma sala. O mais antigo fica com a
+-- sala; os demais ficam sem sala, com uma nota para a recepção escolher outra
+UPDATE bookings b
+SET room_id = NULL,
+    notes = concat_ws(E'\n', NULLIF(b.notes, ''), 'Sala removida: outro agendamento já ocupava a sala neste horário.')
+WHERE b.room_id IS NOT NULL
+  AND b.status <> 'cancelled'
+  AND EXISTS (
+    SELECT 1
+    FROM bookings other
+    WHERE other.room_id = b.room_id
+      AND other.id <> b.id
+      AND other.status <> 'cancelled'
+      AND tstzrange(other.starts_at, other.ends_at) && tstzrange(b.starts_at, b.ends_at)
+      AND (COALESCE(other.created_at, '-infinity'), other.id) < (COALESCE(b.created_at, '-infinity'), b.id)
+  );
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_room_overlap
+  EXCLUDE USING gist (room_id WITH =, tstzrange(starts_at, ends_at) WITH &&)
+  WHERE (room_id IS NOT NULL AND status <> 'cancelled');
+
+-- Confere se o equipamento já está em outro agendamento no mesmo horário
+CREATE OR REPLACE FUNCTION assert_equipment_available(p_booking_id uuid, p_resource_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target bookings%ROWTYPE;
+  equipment_name text;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_resource_id::text));
+
+  SELECT * INTO target FROM bookings WHERE id = p_booking_id;
+  IF target.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM booking_equipment be
+    JOIN bookings b ON b.id = be.booking_id
+    WHERE be.resource_id = p_resource_id
+      AND b.id <> p_booking_id
+      AND b.status <> 'cancelled'
+      AND tstzrange(b.starts_at, b.ends_at) && tstzrange(target.starts_at, target.ends_at)
+  ) THEN
+    SELECT name INTO equipment_name FROM resources WHERE id = p_resource_id;
+    RAISE EXCEPTION 'O equipamento % já está reservado nesse horário.', equipment_name;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_booking_equipment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM assert_equipment_available(NEW.booking_id, NEW.resource_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER booking_equipment_availability
+  BEFORE INSERT ON booking_equipment
+  FOR EACH ROW
+  EXECUTE FUNCTION check_booking_equipment();
+
+CREATE OR REPLACE FUNCTION check_rescheduled_booking_equipment()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  equipment_id uuid;
+BEGIN
+  FOR equipment_id IN SELECT resource_id FROM booking_equipment WHERE booking_id = NEW.id LOOP
+    PERFORM assert_equipment_available(NEW.id, equipment_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bookings_equipment_availability
+  AFTER UPDATE OF starts_at, ends_at, status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_rescheduled_booking_equipment();
+
+CREATE OR REPLACE FUNCTION save_booking(
+  p_booking_id uuid,
+  p_patient_id uuid,
+  p_patient_name text,
+  p_procedure text,
+  p_professional_id uuid,
+  p_room_id uuid,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_notes text,
+  p_equipment_ids uuid[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  saved_id uuid := p_booking_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO bookings (patient_id, patient_name, procedure, professional_id, room_id, starts_at, ends_at, notes, user_id)
+    VALUES (p_patient_id, trim(p_patient_name), p_procedure, p_professional_id, p_room_id, p_starts_at, p_ends_at, p_notes, auth.uid())
+    RETURNING id INTO saved_id;
+  ELSE
+    -- Remove o equipamento antes de mudar o horário para não validar o que deixou de ser reservado
+    DELETE FROM booking_equipment WHERE booking_id = saved_id;
+
+    UPDATE bookings
+    SET patient_id = p_patient_id,
+        patient_name = trim(p_patient_name),
+        procedure = p_procedure,
+        professional_id = p_professional_id,
+        room_id = p_room_id,
+        starts_at = p_starts_at,
+        ends_at = p_ends_at,
+        notes = p_notes
+    WHERE id = saved_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Agendamento não encontrado.';
+    END IF;
+  END IF;
+
+  INSERT INTO booking_equipment (booking_id, resource_id, user_id)
+  SELECT saved_id, resource_id, auth.uid()
+  FROM unnest(COALESCE(p_equipment_ids, '{}'::uuid[])) AS resource_id;
+
+  RETURN saved_id;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS booking_equipment_resource_id_idx ON booking_equipment(resource_id);
@@ -0,0 +1,76 @@
+/*
+  # CPF check digits
+
+  1. New Functions
+    - `is_valid_cpf(text)`: true when the value has 11 digits, is not a
+      repeated digit sequence (000.000.000-00 ... 999.999.999-99) and both
+      check digits match
+
+  2. Changes
+    - `patients.cpf` must be stored normalized (digits only) and be a valid
+      CPF. A trigger checks new patients and CPF changes only, so existing
+      rows with typos stay readable and can still be reused or have other
+      fields updated; the CPF itself can only be replaced by a valid one
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_cpf(p_cpf text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_digits int[];
+  v_sum int;
+  v_check int;
+  i int;
+BEGIN
+  IF p_cpf IS NULL OR p_cpf !~ '^\d{11}$' OR p_cpf ~ '^(\d)\1{10}$' THEN
+    RETURN false;
+  END IF;
+
+  SELECT array_agg(digit::int ORDER BY position)
+  INTO v_digits
+  FROM unnest(string_to_array(p_cpf, NULL)) WITH ORDINALITY AS t(digit, position);
+
+  -- Primeiro dígito: pesos 10..2 sobre os nove primeiros números
+  v_sum := 0;
+  FOR i IN 1..9 LOOP
+    v_sum := v_sum + v_digits[i] * (11 - i);
+  END LOOP;
+  v_check := (v_sum * 10) % 11 % 10;
+  IF v_check <> v_digits[10] THEN
+    RETURN false;
+  END IF;
+
+  -- Segundo dígito: pesos 11..2 sobre os dez primeiros números
+  v_sum := 0;
+  FOR i IN 1..10 LOOP
+    v_sum := v_sum + v_digits[i] * (12 - i);
+  END LOOP;
+  v_check := (v_sum * 10) % 11 % 10;
+
+  RETURN v_check = v_digits[11];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_patient_cpf()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.cpf IS NOT DISTINCT FROM OLD.cpf THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_valid_cpf(NEW.cpf) THEN
+    RAISE EXCEPTION 'CPF inválido: %', NEW.cpf USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER patients_check_cpf
+  BEFORE INSERT OR UPDATE OF cpf ON patients
+  FOR EACH ROW
+  EXECUTE FUNCTION check_patient_cpf();
@@ -0,0 +1,47 @@
+/*
+  # Patient contact and address details
+
+  1. Changes
+    - Add to `patients`:
+      - `whatsapp` (text, digits with area code; may differ from `phone`)
+      - `cep` (text, 8 digits)
+      - `address_number`, `address_complement`, `neighborhood`, `city` (text)
+      - `state` (text, two-letter UF)
+      - `emergency_contact_name`, `emergency_contact_phone` (text)
+    - `address` keeps the street line. `phone`, `whatsapp` and
+      `emergency_contact_phone` are stored as digits only (area code and
+      number), like `cpf`
+    - Existing phones are normalized to digits, dropping the +55 country code.
+      Numbers that still don't have 10 or 11 digits are moved to `notes` so
+      nothing is lost, and `phone` gets the same check as the other numbers
+*/
+
+ALTER TABLE patients
+  ADD COLUMN IF NOT EXISTS whatsapp text CHECK (whatsapp ~ '^\d{10,11}$'),
+  ADD COLUMN IF NOT EXISTS cep text CHECK (cep ~ '^\d{8}$'),
+  ADD COLUMN IF NOT EXISTS address_number text,
+  ADD COLUMN IF NOT EXISTS address_complement text,
+  ADD COLUMN IF NOT EXISTS neighborhood text,
+  ADD COLUMN IF NOT EXISTS city text,
+  ADD COLUMN IF NOT EXISTS state text CHECK (state ~ '^[A-Z]{2}$'),
+  ADD COLUMN IF NOT EXISTS emergency_contact_name text,
+  ADD COLUMN IF NOT EXISTS emergency_contact_phone text CHECK (emergency_contact_phone ~ '^\d{10,11}$');
+
+-- Telefones antigos eram texto livre; guarda só os dígitos, sem o código do país.
+-- Números incompletos vão como estavam para as observações, para a recepção corrigir.
+-- O CPF não muda, então cadastros antigos com CPF inválido não são conferidos de novo
+UPDATE patients p
+SET phone = CASE WHEN n.digits ~ '^\d{10,11}$' THEN n.digits END,
+    notes = CASE
+      WHEN n.digits ~ '^\d{10,11}$' OR n.digits = '' THEN p.notes
+      ELSE concat_ws(E'\n', nullif(p.notes, ''), 'Telefone antigo: ' || trim(p.phone))
+    END
+FROM (
+  SELECT id, regexp_replace(regexp_replace(phone, '\D', '', 'g'), '^55(\d{10,11})$', '\1') AS digits
+  FROM patients
+  WHERE phone IS NOT NULL
+) n
+WHERE n.id = p.id;
+
+ALTER TABLE patients
+  ADD CONSTRAINT patients_phone_check CHECK (phone ~ '^\d{10,11}$');
@@ -0,0 +1,244 @@
+/*
+  # Payment reminders and delivery queue
+
+  1. New Tables
+    - `reminder_templates`
+      - `id` (uuid, primary key)
+      - `kind` (text, 'upcoming', 'due_today' or 'overdue'; one per user)
+      - `days` (integer, days before the due date for 'upcoming' and after it
+        for 'overdue'; ignored for 'due_today')
+      - `subject` and `body` (text, with placeholders such as {paciente})
+      - `active` (boolean)
+      - `user_id` (uuid, foreign key)
+      - `updated_at` (timestamptz)
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `appointment_id` (uuid, the installment the reminder is about)
+      - `patient_id` (uuid)
+      - `kind` (text, same values as the template)
+      - `channel` (text, 'email' is delivered by the `send-notifications`
+        function; 'whatsapp' is sent by hand from the app)
+      - `recipient`, `subject`, `body` (text, rendered when queued)
+      - `due_date` (date, the due date the reminder refers to)
+      - `status` (text, 'queued', 'sending', 'sent', 'failed' or 'cancelled')
+      - `attempts`, `max_attempts` (integer), `next_attempt_at` (timestamptz),
+        `last_error` (text)
+      - `sent_at` (timestamptz)
+      - `user_id` (uuid, foreign key)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `claim_notifications(channel, limit)` marks due reminders as 'sending'
+      and returns them. The claim is a lease: a worker that dies mid-send
+      leaves the row to be picked up again once `next_attempt_at` passes, or
+      marked 'failed' if that was its last attempt
+    - `finish_notification(id, error)` records the outcome. Failures are
+      retried with exponential backoff until `max_attempts`
+    - Queued reminders are cancelled when the installment is paid,
+      renegotiated or gets a new due date
+    - `queue_notifications(notifications)` queues rendered reminders, skipping
+      the ones already queued or sent for the same installment, kind, channel
+      and due date. Cancelled reminders don't count, so they can be queued again
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated users to manage their templates and
+      notifications. The worker functions are only available to service_role
+*/
+
+CREATE TABLE IF NOT EXISTS reminder_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('upcoming', 'due_today', 'overdue')),
+  days integer NOT NULL DEFAULT 0 CHECK (days >= 0),
+  subject text NOT NULL,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  active boolean NOT NULL DEFAULT true,
+  user_id uuid REFERENCES auth.users(id),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, kind)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  patient_id uuid REFERENCES patients(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('upcoming', 'due_today', 'overdue')),
+  channel text NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  recipient text NOT NULL,
+  subject text,
+  body text NOT NULL,
+  due_date date NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  sent_at timestamptz,
+  user_id uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE reminder_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reminder templates"
+  ON reminder_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create reminder templates"
+  ON reminder_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reminder templates"
+  ON reminder_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create notifications"
+  ON notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION claim_notifications(p_channel text, p_limit integer DEFAULT 20)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Lease vencido na última tentativa: o envio não terminou e não há nova tentativa
+  UPDATE notifications
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'O envio foi interrompido antes de terminar.')
+  WHERE channel = p_channel
+    AND status = 'sending'
+    AND next_attempt_at <= now()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE notifications
+  SET status = 'sending',
+      attempts = attempts + 1,
+      next_attempt_at = now() + interval '10 minutes'
+  WHERE id IN (
+    SELECT id
+    FROM notifications
+    WHERE channel = p_channel
+      AND status IN ('queued', 'sending')
+      AND next_attempt_at <= now()
+      AND attempts < max_attempts
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finish_notification(p_notification_id uuid, p_error text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE notifications
+    SET status = 'sent',
+        sent_at = now(),
+        last_error = NULL
+    WHERE id = p_notification_id;
+    RETURN;
+  END IF;
+
+  -- 15 min, 30 min, 1 h... entre as tentativas
+  UPDATE notifications
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+      next_attempt_at = now() + interval '15 minutes' * power(2, greatest(attempts - 1, 0)),
+      last_error = p_error
+  WHERE id = p_notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_notifications(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_notification(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Lembrete na fila de uma parcela que já foi paga ou mudou de vencimento não é mais enviado
+CREATE OR REPLACE FUNCTION cancel_stale_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE notifications
+  SET status = 'cancelled'
+  WHERE appointment_id = NEW.id
+    AND status = 'queued'
+    AND (NEW.status IN ('paid', 'renegotiated') OR due_date <> NEW.next_payment_date);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER appointments_cancel_stale_notifications
+  AFTER UPDATE OF status, next_payment_date ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION cancel_stale_notifications();
+
+-- Um lembrete de cada tipo por canal e vencimento; um lembrete cancelado pode ser gerado de novo
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_once_idx
+  ON notifications(appointment_id, kind, channel, due_date) WHERE status <> 'cancelled';
+
+-- O PostgREST não usa índices parciais no upsert; a fila ignora aqui os lembretes já gerados
+CREATE OR REPLACE FUNCTION queue_notifications(p_notifications jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  queued_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+
+  INSERT INTO notifications (
+    appointment_id, patient_id, kind, channel, recipient, subject, body, due_date, user_id
+  )
+  SELECT n.appointment_id, n.patient_id, n.kind, n.channel, n.recipient, n.subject, n.body, n.due_date, auth.uid()
+  FROM jsonb_to_recordset(p_notifications) AS n(
+    appointment_id uuid,
+    patient_id uuid,
+    kind text,
+    channel text,
+    recipient text,
+    subject text,
+    body text,
+    due_date date
+  )
+  ON CONFLICT (appointment_id, kind, channel, due_date) WHERE status <> 'cancelled' DO NOTHING;
+
+  GET DIAGNOSTICS queued_count = ROW_COUNT;
+  RETURN queued_count;
+END;
+$$;
+CREATE INDEX IF NOT EXISTS notifications_queue_idx ON notifications(channel, next_attempt_at) WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id);
@@ -0,0 +1,15 @@
+/*
+  # Configurable due-date rules per payment method
+
+  1. Changes
+    - `clinic_settings`
+      - `schedule_rules` (jsonb): per payment method overrides of the rules used
+        to schedule installments, keyed by method, e.g.
+        `{ "boleto": { "firstDueOffsetMonths": 1, "firstDueOffsetDays": 0,
+        "dayOfMonthOverflow": "clamp", "nonBusinessDayRoll": "next" } }`.
+        Missing methods or fields fall back to the app defaults
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS schedule_rules jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(schedule_rules) = 'object');
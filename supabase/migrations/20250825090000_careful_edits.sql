@@ -0,0 +1,91 @@
+/*
+  # Atomic installment edits
+
+  1. New Functions
+    - `update_installments(installments)`: changes the value, due date, net value
+      and expected settlement of open installments of one payment leg, e.g. when
+      one installment is edited and the difference is spread over the others
+
+  2. Notes
+    - `installments` is [{ id, installment_value, net_value, next_payment_date,
+      expected_settlement_date }], calculated by the app like the plan legs
+    - The leg and its installments are locked, so a payment registered at the
+      same time can't leave an installment below what was already paid
+    - The leg total must stay the same; all rows are written in one transaction
+*/
+
+CREATE OR REPLACE FUNCTION update_installments(p_installments jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_leg_id uuid;
+  changed_ids uuid[];
+  total_before numeric(12,2);
+  total_after numeric(12,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+  IF p_installments IS NULL OR jsonb_typeof(p_installments) <> 'array' OR jsonb_array_length(p_installments) = 0 THEN
+    RAISE EXCEPTION 'Informe ao menos uma parcela.';
+  END IF;
+
+  SELECT array_agg((value ->> 'id')::uuid) INTO changed_ids
+  FROM jsonb_array_elements(p_installments);
+
+  SELECT leg_id INTO target_leg_id
+  FROM appointments
+  WHERE id = changed_ids[1];
+
+  IF target_leg_id IS NULL THEN
+    RAISE EXCEPTION 'Parcela não encontrada.';
+  END IF;
+
+  -- Trava a forma de pagamento e suas parcelas até o fim da alteração
+  PERFORM 1 FROM payment_legs WHERE id = target_leg_id FOR UPDATE;
+  PERFORM 1 FROM appointments WHERE leg_id = target_leg_id FOR UPDATE;
+
+  IF (
+    SELECT COUNT(*)
+    FROM appointments
+    WHERE id = ANY(changed_ids)
+      AND leg_id = target_leg_id
+      AND status IN ('pending', 'overdue')
+  ) <> array_length(changed_ids, 1) THEN
+    RAISE EXCEPTION 'Só parcelas em aberto da mesma forma de pagamento podem ser alteradas juntas.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_installments) item
+    JOIN appointments a ON a.id = (item ->> 'id')::uuid
+    WHERE (item ->> 'next_payment_date') IS NULL
+      OR (item ->> 'installment_value')::numeric(12,2) <= a.amount_paid
+  ) THEN
+    RAISE EXCEPTION 'Cada parcela precisa de vencimento e de valor maior que o já pago.';
+  END IF;
+
+  SELECT COALESCE(SUM(installment_value), 0) INTO total_before
+  FROM appointments
+  WHERE leg_id = target_leg_id;
+
+  SELECT COALESCE(SUM(COALESCE((item ->> 'installment_value')::numeric(12,2), a.installment_value)), 0)
+  INTO total_after
+  FROM appointments a
+  LEFT JOIN jsonb_array_elements(p_installments) item ON (item ->> 'id')::uuid = a.id
+  WHERE a.leg_id = target_leg_id;
+
+  IF total_after <> total_before THEN
+    RAISE EXCEPTION 'As parcelas (%) não fecham com o valor da forma de pagamento (%).', total_after, total_before;
+  END IF;
+
+  UPDATE appointments a
+  SET installment_value = (item ->> 'installment_value')::numeric(12,2),
+      net_value = COALESCE((item ->> 'net_value')::numeric(12,2), (item ->> 'installment_value')::numeric(12,2)),
+      next_payment_date = (item ->> 'next_payment_date')::date,
+      expected_settlement_date = COALESCE((item ->> 'expected_settlement_date')::date, (item ->> 'next_payment_date')::date)
+  FROM jsonb_array_elements(p_installments) item
+  WHERE a.id = (item ->> 'id')::uuid;
+END;
+$$;
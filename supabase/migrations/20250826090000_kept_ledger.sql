@@ -0,0 +1,37 @@
+/*
+  # Keep payments when cancelling a treatment
+
+  1. Changes
+    - `cancel_treatment_plan(treatment)` refuses to remove a treatment with
+      registered payments. Deleting the treatment cascades to its installments,
+      payments and payment reversals, which would erase received money from the
+      cash flow and the audit trail
+*/
+
+CREATE OR REPLACE FUNCTION cancel_treatment_plan(p_treatment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Trava o tratamento para um pagamento simultâneo não escapar da verificação
+  PERFORM 1 FROM treatments WHERE id = p_treatment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tratamento não encontrado.';
+  END IF;
+
+  PERFORM 1 FROM appointments WHERE treatment_id = p_treatment_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM payments p
+    JOIN appointments a ON a.id = p.appointment_id
+    WHERE a.treatment_id = p_treatment_id
+  ) THEN
+    RAISE EXCEPTION 'Tratamentos com pagamentos registrados não podem ser excluídos.';
+  END IF;
+
+  -- Formas de pagamento e parcelas saem junto (ON DELETE CASCADE)
+  DELETE FROM treatments WHERE id = p_treatment_id;
+END;
+$$;
@@ -0,0 +1,73 @@
+/*
+  # Create session packages with the treatment plan
+
+  1. Changes
+    - `create_treatment_plan(...)` takes `p_sessions_purchased` and
+      `p_package_valid_until`, so a package is written in the same transaction
+      as the treatment and its plan instead of by a second request
+*/
+
+DROP FUNCTION IF EXISTS create_treatment_plan(uuid, text, date, numeric, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION create_treatment_plan(
+  p_patient_id uuid,
+  p_procedure text,
+  p_procedure_date date,
+  p_total_value numeric,
+  p_legs jsonb,
+  p_professional_id uuid DEFAULT NULL,
+  p_sessions_purchased integer DEFAULT NULL,
+  p_package_valid_until date DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_treatment_id uuid;
+  planned_total numeric(12,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado.';
+  END IF;
+  IF COALESCE(trim(p_procedure), '') = '' OR p_procedure_date IS NULL THEN
+    RAISE EXCEPTION 'Informe o procedimento e a data.';
+  END IF;
+  IF p_total_value IS NULL OR p_total_value <= 0 THEN
+    RAISE EXCEPTION 'Informe o valor total do procedimento.';
+  END IF;
+  IF p_professional_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM professionals WHERE id = p_professional_id) THEN
+    RAISE EXCEPTION 'Profissional não encontrado.';
+  END IF;
+  IF p_sessions_purchased IS NOT NULL AND p_sessions_purchased <= 0 THEN
+    RAISE EXCEPTION 'O pacote deve ter ao menos uma sessão.';
+  END IF;
+
+  INSERT INTO treatments (
+    patient_id, procedure, procedure_date, total_value, professional_id,
+    sessions_purchased, package_valid_until, user_id
+  )
+  VALUES (
+    p_patient_id,
+    trim(p_procedure),
+    p_procedure_date,
+    p_total_value,
+    p_professional_id,
+    p_sessions_purchased,
+    -- Validade só faz sentido para pacotes
+    CASE WHEN p_sessions_purchased IS NOT NULL THEN p_package_valid_until END,
+    auth.uid()
+  )
+  RETURNING id INTO new_treatment_id;
+
+  planned_total := insert_plan_legs(new_treatment_id, p_legs);
+
+  IF planned_total <> p_total_value THEN
+    RAISE EXCEPTION 'A soma das formas de pagamento (%) não fecha com o valor total (%).', planned_total, p_total_value;
+  END IF;
+
+  RETURN new_treatment_id;
+END;
+$$;
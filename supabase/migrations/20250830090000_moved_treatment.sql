@@ -0,0 +1,117 @@
+/*
+  # Move a treatment to another patient with the treatment plan
+
+  1. Changes
+    - `update_treatment_plan(...)` takes `p_patient_id`: when the edit reuses an
+      existing patient record, the treatment is moved to it in the same
+      transaction as the plan, instead of by a separate request before it
+*/
+
+DROP FUNCTION IF EXISTS update_treatment_plan(uuid, text, numeric, jsonb, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION update_treatment_plan(
+  p_treatment_id uuid,
+  p_procedure text,
+  p_total_value numeric,
+  p_legs jsonb,
+  p_professional_id uuid DEFAULT NULL,
+  p_patient_name text DEFAULT NULL,
+  p_patient_cpf text DEFAULT NULL,
+  p_patient_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  settled_total numeric(12,2);
+  planned_total numeric(12,2);
+  next_position integer;
+  target_patient_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado.';
+  END IF;
+
+  SELECT patient_id INTO target_patient_id
+  FROM treatments
+  WHERE id = p_treatment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tratamento não encontrado.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM renegotiations WHERE treatment_id = p_treatment_id) THEN
+    RAISE EXCEPTION 'Planos renegociados só podem ser alterados por uma nova renegociação.';
+  END IF;
+  IF COALESCE(trim(p_procedure), '') = '' THEN
+    RAISE EXCEPTION 'Informe o procedimento.';
+  END IF;
+  IF p_total_value IS NULL OR p_total_value <= 0 THEN
+    RAISE EXCEPTION 'Informe o valor total do procedimento.';
+  END IF;
+  IF p_professional_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM professionals WHERE id = p_professional_id) THEN
+    RAISE EXCEPTION 'Profissional não encontrado.';
+  END IF;
+  IF p_patient_name IS NOT NULL AND trim(p_patient_name) = '' THEN
+    RAISE EXCEPTION 'Informe o nome do paciente.';
+  END IF;
+  IF p_patient_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM patients WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado.';
+  END IF;
+
+  -- Reaproveitar um cadastro existente move o tratamento para ele
+  target_patient_id := COALESCE(p_patient_id, target_patient_id);
+
+  -- Parcelas com dinheiro recebido ficam como estão
+  DELETE FROM appointments
+  WHERE treatment_id = p_treatment_id
+    AND status <> 'paid'
+    AND amount_paid = 0;
+
+  DELETE FROM payment_legs l
+  WHERE l.treatment_id = p_treatment_id
+    AND NOT EXISTS (SELECT 1 FROM appointments a WHERE a.leg_id = l.id);
+
+  -- Formas de pagamento antigas passam a descrever só as parcelas mantidas
+  UPDATE payment_legs l
+  SET amount = kept.total,
+      installments = kept.last_number
+  FROM (
+    SELECT leg_id, SUM(installment_value) AS total, MAX(installment_number) AS last_number
+    FROM appointments
+    WHERE treatment_id = p_treatment_id
+    GROUP BY leg_id
+  ) kept
+  WHERE kept.leg_id = l.id;
+
+  SELECT COALESCE(SUM(installment_value), 0) INTO settled_total
+  FROM appointments
+  WHERE treatment_id = p_treatment_id;
+
+  SELECT COALESCE(MAX(position), -1) + 1 INTO next_position
+  FROM payment_legs
+  WHERE treatment_id = p_treatment_id;
+
+  planned_total := insert_plan_legs(p_treatment_id, p_legs, next_position);
+
+  IF settled_total + planned_total <> p_total_value THEN
+    RAISE EXCEPTION 'Parcelas pagas (%) e novo plano (%) não fecham com o valor total (%).',
+      settled_total, planned_total, p_total_value;
+  END IF;
+
+  -- O cadastro do paciente é compartilhado por todos os tratamentos dele
+  IF p_patient_name IS NOT NULL THEN
+    UPDATE patients
+    SET name = trim(p_patient_name),
+        cpf = COALESCE(regexp_replace(p_patient_cpf, '\D', '', 'g'), cpf)
+    WHERE id = target_patient_id;
+  END IF;
+
+  UPDATE treatments
+  SET procedure = trim(p_procedure),
+      total_value = p_total_value,
+      professional_id = p_professional_id,
+      patient_id = target_patient_id
+  WHERE id = p_treatment_id;
+END;
+$$;